@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
@@ -24,6 +25,7 @@ interface LocationSettingsProps {
 export function LocationSettings({ open, onOpenChange }: LocationSettingsProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
   const [autoLocationEnabled, setAutoLocationEnabled] = useState(true);
   const [locationInterval, setLocationInterval] = useState('60'); // in minutes
@@ -31,10 +33,8 @@ export function LocationSettings({ open, onOpenChange }: LocationSettingsProps)
   useEffect(() => {
     if (user && open) {
       // Initialize with user's current settings
-      setAutoLocationEnabled(user.locationHistoryEnabled || true);
-      // Get stored interval or default to 60 minutes
-      const storedInterval = localStorage.getItem('autoLocationInterval') || '60';
-      setLocationInterval(storedInterval);
+      setAutoLocationEnabled(user.autoLoggingEnabled ?? true);
+      setLocationInterval(String(user.locationLogIntervalMinutes ?? 60));
     }
   }, [user, open]);
 
@@ -43,17 +43,13 @@ export function LocationSettings({ open, onOpenChange }: LocationSettingsProps)
 
     setIsLoading(true);
     try {
-      // Update user preferences
-      await apiRequest('PUT', '/api/user/preferences', {
-        locationHistoryEnabled: autoLocationEnabled,
+      // The server reschedules the user's logging job with the new settings. Auto-logging is its own
+      // setting: switching it off keeps saved history, unlike turning history off in privacy settings.
+      const response = await apiRequest('PATCH', '/api/user/settings', {
+        autoLoggingEnabled: autoLocationEnabled,
+        locationLogIntervalMinutes: parseInt(locationInterval),
       });
-
-      // Store interval in localStorage for the location logger
-      localStorage.setItem('autoLocationInterval', locationInterval);
-      localStorage.setItem('autoLocationEnabled', autoLocationEnabled.toString());
-      
-      // Trigger page reload to restart location logging with new settings
-      window.location.reload();
+      queryClient.setQueryData(['/api/auth/user'], await response.json());
 
       toast({
         title: 'Settings saved',
@@ -108,7 +104,9 @@ export function LocationSettings({ open, onOpenChange }: LocationSettingsProps)
                 <div className="space-y-0.5">
                   <Label className="text-sm font-medium">Enable auto-logging</Label>
                   <p className="text-xs text-muted-foreground">
-                    Automatically save your location at regular intervals
+                    {user?.locationHistoryEnabled === false
+                      ? 'Location history is off in privacy settings, so nothing is logged'
+                      : 'Automatically save your location at regular intervals'}
                   </p>
                 </div>
                 <Switch
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { MapContainer, TileLayer, Circle, Polygon, CircleMarker, useMapEvents } from 'react-leaflet';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Place, PlaceBoundary, MIN_PLACE_RADIUS, MAX_PLACE_RADIUS } from '@shared/schema';
+import { Circle as CircleIcon, Hexagon, Undo2, Trash2 } from 'lucide-react';
+
+interface PlaceGeofenceEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  place: Place;
+}
+
+type ShapeMode = 'radius' | 'boundary';
+
+// Adds a boundary vertex wherever the map is tapped while drawing
+function BoundaryDrawer({ onAddPoint }: { onAddPoint: (point: [number, number]) => void }) {
+  useMapEvents({
+    click: (event) => onAddPoint([event.latlng.lat, event.latlng.lng]),
+  });
+  return null;
+}
+
+export function PlaceGeofenceEditor({ open, onOpenChange, place }: PlaceGeofenceEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<ShapeMode>('radius');
+  const [radius, setRadius] = useState(place.radius);
+  const [boundary, setBoundary] = useState<PlaceBoundary>([]);
+
+  useEffect(() => {
+    if (open) {
+      // Start from the place's saved shape every time the editor opens
+      setRadius(place.radius);
+      setBoundary(place.boundary ?? []);
+      setMode(place.boundary && place.boundary.length >= 3 ? 'boundary' : 'radius');
+    }
+  }, [open, place]);
+
+  const updateGeofenceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `/api/places/${place.id}`, {
+        name: place.name,
+        category: place.category,
+        color: place.color,
+        radius,
+        boundary: mode === 'boundary' ? boundary : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/places'] });
+      toast({
+        title: "Geofence updated",
+        description: `Alerts for ${place.name} now use the new area.`,
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update geofence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = mode === 'radius' || boundary.length >= 3;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Alert Area for {place.name}</DialogTitle>
+          <DialogDescription>
+            Choose a circle around the pin or draw the outline of the place on the map
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as ShapeMode)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="radius" aria-label="Circle">
+              <CircleIcon className="w-4 h-4 mr-2" />
+              Circle
+            </ToggleGroupItem>
+            <ToggleGroupItem value="boundary" aria-label="Outline">
+              <Hexagon className="w-4 h-4 mr-2" />
+              Outline
+            </ToggleGroupItem>
+          </ToggleGroup>
+
+          <div className="h-64 rounded-md overflow-hidden border">
+            <MapContainer
+              center={[place.latitude, place.longitude]}
+              zoom={17}
+              className="h-full w-full"
+            >
+              <TileLayer
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                attribution="&copy; OpenStreetMap contributors"
+              />
+              {mode === 'radius' ? (
+                <Circle center={[place.latitude, place.longitude]} radius={radius} />
+              ) : (
+                <>
+                  <BoundaryDrawer onAddPoint={(point) => setBoundary(prev => [...prev, point])} />
+                  {boundary.length >= 3 && <Polygon positions={boundary} />}
+                  {boundary.map((point, index) => (
+                    <CircleMarker key={index} center={point} radius={4} />
+                  ))}
+                </>
+              )}
+            </MapContainer>
+          </div>
+
+          {mode === 'radius' ? (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Radius: {Math.round(radius)} m</Label>
+              <Slider
+                min={MIN_PLACE_RADIUS}
+                max={MAX_PLACE_RADIUS}
+                step={5}
+                value={[radius]}
+                onValueChange={([value]) => setRadius(value)}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Tap the map to add corners ({boundary.length} placed, at least 3 needed)
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setBoundary(prev => prev.slice(0, -1))}
+                  disabled={boundary.length === 0}
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setBoundary([])}
+                  disabled={boundary.length === 0}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => updateGeofenceMutation.mutate()}
+            disabled={!canSave || updateGeofenceMutation.isPending}
+          >
+            {updateGeofenceMutation.isPending ? 'Saving...' : 'Save Area'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
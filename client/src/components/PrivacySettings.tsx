@@ -1,12 +1,40 @@
 import { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { User } from '@shared/schema';
+import { Place, User } from '@shared/schema';
+
+// Select values for the retention period; "forever" is stored as null
+const retentionOptions = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '365', label: '1 year' },
+  { value: 'forever', label: 'Forever' },
+];
+
+// Next local 8:00, for "Until tomorrow"
+function tomorrowMorning(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(8, 0, 0, 0);
+  return date;
+}
 
 interface PrivacySettingsProps {
   open: boolean;
@@ -22,10 +50,11 @@ export default function PrivacySettings({ open, onOpenChange, user }: PrivacySet
     locationSharingEnabled: user.locationSharingEnabled ?? true,
     locationHistoryEnabled: user.locationHistoryEnabled ?? true,
     notificationsEnabled: user.notificationsEnabled ?? true,
+    locationRetentionDays: user.locationRetentionDays ?? null,
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (newSettings: typeof settings) => {
+    mutationFn: async (newSettings: Partial<typeof settings>) => {
       const response = await apiRequest('PATCH', '/api/user/settings', newSettings);
       return response.json();
     },
@@ -46,8 +75,85 @@ export default function PrivacySettings({ open, onOpenChange, user }: PrivacySet
     },
   });
 
+  const { data: places } = useQuery<Place[]>({
+    queryKey: ['/api/places'],
+    enabled: open,
+  });
+  const homePlace = places?.find(place => place.category === 'home');
+
+  const pausedUntil = user.sharingPausedUntil ? new Date(user.sharingPausedUntil) : null;
+  const isPaused = !!pausedUntil && pausedUntil.getTime() > Date.now();
+
+  const pauseSharingMutation = useMutation({
+    mutationFn: async (pause: { until?: string; resumePlaceId?: number }) => {
+      const response = await apiRequest('POST', '/api/sharing/pause', pause);
+      return response.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(['/api/auth/user'], updatedUser);
+      toast({
+        title: "Sharing paused",
+        description: "Your family will see your location again when the pause ends.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to pause location sharing. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeSharingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sharing/resume');
+      return response.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(['/api/auth/user'], updatedUser);
+      toast({
+        title: "Sharing resumed",
+        description: "Your family can see your location again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to resume location sharing. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteHistoryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/locations');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/locations/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/locations/current'] });
+      toast({
+        title: "History deleted",
+        description: "All of your saved locations have been deleted.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete location history. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSave = () => {
-    updateSettingsMutation.mutate(settings);
+    // Sending a retention period purges history older than it, so leave it out unless it was changed
+    const { locationRetentionDays, ...otherSettings } = settings;
+    updateSettingsMutation.mutate(
+      locationRetentionDays === (user.locationRetentionDays ?? null) ? otherSettings : settings
+    );
   };
 
   return (
@@ -73,11 +179,66 @@ export default function PrivacySettings({ open, onOpenChange, user }: PrivacySet
             />
           </div>
           
+          {user.locationSharingEnabled && settings.locationSharingEnabled && (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Pause Sharing</Label>
+              {isPaused ? (
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-muted-foreground">
+                    Paused until {pausedUntil!.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                    {user.sharingResumePlaceId === homePlace?.id && homePlace ? ` or you arrive at ${homePlace.name}` : ''}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => resumeSharingMutation.mutate()}
+                    disabled={resumeSharingMutation.isPending}
+                  >
+                    {resumeSharingMutation.isPending ? 'Resuming...' : 'Resume'}
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pauseSharingMutation.isPending}
+                      onClick={() => pauseSharingMutation.mutate({ until: new Date(Date.now() + 60 * 60 * 1000).toISOString() })}
+                    >
+                      For 1 hour
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pauseSharingMutation.isPending}
+                      onClick={() => pauseSharingMutation.mutate({ until: tomorrowMorning().toISOString() })}
+                    >
+                      Until tomorrow
+                    </Button>
+                    {homePlace && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pauseSharingMutation.isPending}
+                        onClick={() => pauseSharingMutation.mutate({ resumePlaceId: homePlace.id })}
+                      >
+                        Until I arrive home
+                      </Button>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Hide your location for a while. Sharing turns back on by itself.
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label className="text-base font-medium">Location History</Label>
               <div className="text-sm text-muted-foreground">
-                Save your location history for later reference
+                Save your location history for later reference. Turning this off deletes saved history.
               </div>
             </div>
             <Switch
@@ -88,6 +249,35 @@ export default function PrivacySettings({ open, onOpenChange, user }: PrivacySet
             />
           </div>
           
+          {settings.locationHistoryEnabled && (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Keep History For</Label>
+              <Select
+                value={settings.locationRetentionDays?.toString() ?? 'forever'}
+                onValueChange={(value) =>
+                  setSettings(prev => ({
+                    ...prev,
+                    locationRetentionDays: value === 'forever' ? null : parseInt(value),
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select retention period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {retentionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-sm text-muted-foreground">
+                Older locations are deleted automatically
+              </div>
+            </div>
+          )}
+          
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label className="text-base font-medium">Push Notifications</Label>
@@ -104,19 +294,43 @@ export default function PrivacySettings({ open, onOpenChange, user }: PrivacySet
           </div>
         </div>
         
-        <div className="flex justify-end space-x-2 pt-4">
-          <Button
-            variant="outline"
-            onClick={() => onOpenChange(false)}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSave}
-            disabled={updateSettingsMutation.isPending}
-          >
-            {updateSettingsMutation.isPending ? 'Saving...' : 'Save Settings'}
-          </Button>
+        <div className="flex items-center justify-between pt-4">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" className="text-destructive" disabled={deleteHistoryMutation.isPending}>
+                {deleteHistoryMutation.isPending ? 'Deleting...' : 'Delete All History'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete all location history?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every location you have saved will be permanently deleted. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => deleteHistoryMutation.mutate()}>
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={updateSettingsMutation.isPending}
+            >
+              {updateSettingsMutation.isPending ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
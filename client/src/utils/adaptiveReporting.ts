@@ -0,0 +1,137 @@
+// Adaptive location reporting: the server answers each saved fix with when to report next and how
+// accurately, and this reporter follows that advice instead of a fixed timer
+
+import { apiRequest } from '@/lib/queryClient';
+import { enqueueFix, flushLocationQueue, getQueuedFixCount, isOfflineError, type QueuedFix } from '@/utils/offlineLocationQueue';
+import {
+  DEFAULT_REPORTING_RECOMMENDATION,
+  type Location,
+  type ReportingAccuracy,
+  type ReportingRecommendation,
+} from '@shared/schema';
+
+// Battery Status API: only Chromium browsers have it, so the DOM typings leave it out
+interface BatteryManager {
+  level: number;
+  charging: boolean;
+}
+
+declare global {
+  interface Navigator {
+    getBattery?: () => Promise<BatteryManager>;
+  }
+}
+
+// POST /api/locations answers with the saved fix and the advice for the next one
+type SavedLocationResponse = Location & { reporting: ReportingRecommendation | null };
+
+// Retry sooner than the recommendation when a fix or upload fails
+const RETRY_DELAY_MS = 30 * 1000;
+
+// Geolocation options for each accuracy level: high asks for GPS, lower levels accept cached network fixes
+export const getPositionOptions = (accuracy: ReportingAccuracy): PositionOptions => {
+  switch (accuracy) {
+    case 'high':
+      return { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 };
+    case 'balanced':
+      return { enableHighAccuracy: false, timeout: 20000, maximumAge: 30000 };
+    default:
+      return { enableHighAccuracy: false, timeout: 30000, maximumAge: 5 * 60 * 1000 };
+  }
+};
+
+const readBattery = async (): Promise<{ batteryLevel: number | null; isCharging: boolean | null }> => {
+  if (!navigator.getBattery) {
+    return { batteryLevel: null, isCharging: null };
+  }
+
+  try {
+    const battery = await navigator.getBattery();
+    return { batteryLevel: battery.level, isCharging: battery.charging };
+  } catch {
+    return { batteryLevel: null, isCharging: null };
+  }
+};
+
+const getPosition = (options: PositionOptions): Promise<GeolocationPosition> =>
+  new Promise((resolve, reject) => navigator.geolocation.getCurrentPosition(resolve, reject, options));
+
+export interface AdaptiveReporterOptions {
+  onLocationSaved?: (location: Location) => void;
+  onRecommendation?: (recommendation: ReportingRecommendation) => void;
+  onError?: (error: unknown) => void;
+}
+
+// Report the device location now and then on the schedule the server recommends. Returns a function
+// that stops reporting; the location hook calls it on unmount or when sharing is turned off.
+export const startAdaptiveReporting = (options: AdaptiveReporterOptions = {}): (() => void) => {
+  let recommendation = DEFAULT_REPORTING_RECOMMENDATION;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const schedule = (delayMs: number) => {
+    if (!stopped) {
+      timeoutId = setTimeout(report, delayMs);
+    }
+  };
+
+  const report = async () => {
+    let pendingFix: QueuedFix | null = null;
+    try {
+      const positionOptions = getPositionOptions(recommendation.accuracy);
+      const position = await getPosition(positionOptions);
+      const battery = await readBattery();
+      const fix: QueuedFix = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        speed: position.coords.speed,
+        heading: position.coords.heading,
+        altitude: position.coords.altitude,
+        altitudeAccuracy: position.coords.altitudeAccuracy,
+        // Browsers don't say which provider answered; asking for high accuracy is the best hint we have
+        source: positionOptions.enableHighAccuracy ? 'gps' : 'network',
+        ...battery,
+        timestamp: new Date(position.timestamp).toISOString(),
+      };
+
+      let location: Location | null = null;
+      let reporting: ReportingRecommendation | null = null;
+      if (await getQueuedFixCount() > 0) {
+        // Fixes from an offline stretch are still waiting: send this one behind them so the server
+        // replays them all in capture order
+        await enqueueFix(fix);
+        const result = await flushLocationQueue();
+        location = result?.latest ?? null;
+        reporting = result?.reporting ?? null;
+      } else {
+        pendingFix = fix;
+        const response = await apiRequest('POST', '/api/locations', fix);
+        ({ reporting, ...location } = await response.json() as SavedLocationResponse);
+      }
+
+      recommendation = reporting ?? DEFAULT_REPORTING_RECOMMENDATION;
+      if (location) {
+        options.onLocationSaved?.(location);
+      }
+      options.onRecommendation?.(recommendation);
+      schedule(recommendation.intervalSeconds * 1000);
+    } catch (error) {
+      // Keep a fix recorded without a connection, to upload once it returns
+      if (pendingFix && isOfflineError(error)) {
+        await enqueueFix(pendingFix).catch((queueError) => console.error('Failed to queue location:', queueError));
+      }
+      options.onError?.(error);
+      schedule(Math.min(RETRY_DELAY_MS, recommendation.intervalSeconds * 1000));
+    }
+  };
+
+  report();
+
+  return () => {
+    stopped = true;
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  };
+};
@@ -0,0 +1,68 @@
+// Display helpers for the motion and device readings that come with each location fix
+
+import L from 'leaflet';
+
+interface FixReadings {
+  speed?: number | null;
+  heading?: number | null;
+  batteryLevel?: number | null;
+  isCharging?: boolean | null;
+}
+
+// Below this speed the platform's heading is noise, so no arrow is drawn
+const MIN_HEADING_SPEED = 0.5; // meters per second
+const LOW_BATTERY_LEVEL = 0.2;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+export const formatSpeed = (metersPerSecond: number | null | undefined, units: 'metric' | 'imperial' = 'metric'): string | null => {
+  if (metersPerSecond == null || metersPerSecond < 0) {
+    return null;
+  }
+  return units === 'imperial'
+    ? `${Math.round(metersPerSecond * 2.23694)} mph`
+    : `${Math.round(metersPerSecond * 3.6)} km/h`;
+};
+
+export const formatBattery = (batteryLevel: number | null | undefined, isCharging?: boolean | null): string | null => {
+  if (batteryLevel == null) {
+    return null;
+  }
+  return `${Math.round(batteryLevel * 100)}%${isCharging ? ' (charging)' : ''}`;
+};
+
+export const isBatteryLow = (fix: FixReadings) =>
+  fix.batteryLevel != null && fix.batteryLevel <= LOW_BATTERY_LEVEL && !fix.isCharging;
+
+// Family member map marker: a coloured disc with initials, an arrow pointing along the heading while
+// moving, and a battery badge when the device reports its level
+export const createMemberMarkerIcon = (color: string, initials: string, fix: FixReadings): L.DivIcon => {
+  const showHeading = fix.heading != null && (fix.speed ?? 0) >= MIN_HEADING_SPEED;
+  const battery = fix.batteryLevel != null ? Math.round(fix.batteryLevel * 100) : null;
+
+  const arrow = showHeading
+    ? `<div style="position:absolute;inset:-10px;transform:rotate(${fix.heading}deg);pointer-events:none;">
+         <div style="margin:0 auto;width:0;height:0;border-left:6px solid transparent;border-right:6px solid transparent;border-bottom:9px solid ${color};"></div>
+       </div>`
+    : '';
+  const badge = battery !== null
+    ? `<div style="position:absolute;right:-10px;bottom:-6px;padding:0 3px;border-radius:6px;font-size:9px;line-height:13px;color:white;background:${isBatteryLow(fix) ? '#EF4444' : '#374151'};">
+         ${fix.isCharging ? '⚡' : ''}${battery}%
+       </div>`
+    : '';
+
+  return L.divIcon({
+    className: 'family-member-marker',
+    html: `<div style="position:relative;width:32px;height:32px;">
+        ${arrow}
+        <div style="width:32px;height:32px;border-radius:50%;border:2px solid white;box-shadow:0 1px 3px rgba(0,0,0,0.4);background:${color};color:white;display:flex;align-items:center;justify-content:center;font-size:12px;font-weight:600;">
+          ${escapeHtml(initials)}
+        </div>
+        ${badge}
+      </div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    popupAnchor: [0, -18],
+  });
+};
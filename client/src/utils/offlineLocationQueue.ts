@@ -0,0 +1,157 @@
+// Offline location queue: fixes recorded while the device has no connection are kept in IndexedDB and
+// uploaded in capture order through /api/locations/batch once it comes back
+
+import { apiRequest } from '@/lib/queryClient';
+import type { LocationBatchResult, ReportingRecommendation } from '@shared/schema';
+
+const DB_NAME = 'familylocator-offline';
+const STORE_NAME = 'pendingLocations';
+const DB_VERSION = 1;
+
+// Matches the server's per-request limit
+const MAX_BATCH_SIZE = 1000;
+// Oldest fixes are dropped beyond this, so a long offline stretch can't fill the device
+const MAX_QUEUED_FIXES = 10000;
+
+export interface QueuedFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+  altitude?: number | null;
+  altitudeAccuracy?: number | null;
+  batteryLevel?: number | null;
+  isCharging?: boolean | null;
+  source?: string | null;
+  timestamp: string; // ISO capture time
+}
+
+interface StoredFix extends QueuedFix {
+  id?: number;
+}
+
+// What /api/locations/batch answers: the batch outcome, the indexes of malformed fixes and reporting advice
+export interface LocationBatchResponse extends LocationBatchResult {
+  invalid: number[];
+  reporting: ReportingRecommendation | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve once the transaction has committed
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const isIndexedDBSupported = () => typeof indexedDB !== 'undefined';
+
+export const getQueuedFixCount = async (): Promise<number> => {
+  if (!isIndexedDBSupported()) {
+    return 0;
+  }
+  return withStore('readonly', (store) => store.count());
+};
+
+export const enqueueFix = async (fix: QueuedFix): Promise<void> => {
+  if (!isIndexedDBSupported()) {
+    return;
+  }
+
+  await withStore('readwrite', (store) => store.add(fix));
+
+  const count = await getQueuedFixCount();
+  if (count > MAX_QUEUED_FIXES) {
+    const oldest = await withStore('readonly', (store) => store.getAllKeys(null, count - MAX_QUEUED_FIXES));
+    await withStore('readwrite', (store) => store.delete(IDBKeyRange.upperBound(oldest[oldest.length - 1])));
+  }
+};
+
+let flushPromise: Promise<LocationBatchResponse | null> | null = null;
+
+// apiRequest errors start with the response status ("400: ..."). A 4xx other than 401 means the server
+// refused these fixes themselves, and sending them again would fail the same way.
+const isRefusedByServer = (error: unknown) => {
+  const status = error instanceof Error ? parseInt(error.message, 10) : NaN;
+  return status >= 400 && status < 500 && status !== 401;
+};
+
+// Upload everything queued, oldest first, removing each batch once the server has stored it (or refused
+// it outright; network and server errors leave it queued for the next flush). Resolves to the server's
+// response for the last stored batch (which carries the reporting advice), or null if nothing was stored.
+// The server skips malformed fixes individually, so one bad fix can't hold up the rest of the queue.
+export const flushLocationQueue = (): Promise<LocationBatchResponse | null> => {
+  // One flush at a time, or the same fixes would be uploaded twice
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      let lastResponse: LocationBatchResponse | null = null;
+      while (isIndexedDBSupported()) {
+        const batch = await withStore('readonly', (store) => store.getAll(null, MAX_BATCH_SIZE)) as StoredFix[];
+        if (batch.length === 0) {
+          break;
+        }
+
+        try {
+          const response = await apiRequest('POST', '/api/locations/batch', {
+            fixes: batch.map(({ id, ...fix }) => fix),
+          });
+          lastResponse = await response.json();
+        } catch (error) {
+          if (!isRefusedByServer(error)) {
+            throw error;
+          }
+          console.error(`Dropping ${batch.length} queued locations the server refused:`, error);
+        }
+
+        const lastId = batch[batch.length - 1].id!;
+        await withStore('readwrite', (store) => store.delete(IDBKeyRange.upperBound(lastId)));
+      }
+      return lastResponse;
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
+
+// Whether an upload failed because the device is offline, as opposed to the server refusing it
+export const isOfflineError = (error: unknown) =>
+  !navigator.onLine || error instanceof TypeError;
+
+// Flush automatically whenever the browser reports the connection is back
+export const startOfflineQueueSync = (): (() => void) => {
+  const handleOnline = () => {
+    flushLocationQueue().catch((error) => console.error('Failed to upload queued locations:', error));
+  };
+
+  window.addEventListener('online', handleOnline);
+  if (navigator.onLine) {
+    handleOnline();
+  }
+
+  return () => window.removeEventListener('online', handleOnline);
+};
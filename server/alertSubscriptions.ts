@@ -0,0 +1,38 @@
+import type { PlaceSubscription } from '@shared/schema';
+import { getLocalTimeParts, isWithinDailyWindow } from './localTime';
+
+export type GeofenceAction = 'entered' | 'exited';
+
+function ruleMatches(rule: PlaceSubscription, memberId: number, action: GeofenceAction, at: Date): boolean {
+  if (rule.memberId !== null && rule.memberId !== memberId) {
+    return false;
+  }
+  if (action === 'entered' ? !rule.onEnter : !rule.onExit) {
+    return false;
+  }
+
+  const local = getLocalTimeParts(at, rule.timezone);
+  if (rule.daysOfWeek && !rule.daysOfWeek.includes(local.dayOfWeek)) {
+    return false;
+  }
+  return isWithinDailyWindow(local.minuteOfDay, rule.startMinute, rule.endMinute);
+}
+
+// Decide whether a subscriber hears about a family member's geofence event at a place.
+// Without any rules for the place everyone is notified; a matching mute rule always wins;
+// once the subscriber has a notify rule for the place, only events matching one get through.
+export function shouldNotifySubscriber(
+  rules: PlaceSubscription[],
+  memberId: number,
+  action: GeofenceAction,
+  at: Date,
+): boolean {
+  const matching = rules.filter(rule => ruleMatches(rule, memberId, action, at));
+  if (matching.some(rule => rule.mode === 'mute')) {
+    return false;
+  }
+  if (matching.some(rule => rule.mode === 'notify')) {
+    return true;
+  }
+  return !rules.some(rule => rule.mode === 'notify');
+}
@@ -1,10 +1,11 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { locationLogger } from "./locationLogger";
 import { User, InsertUser } from "@shared/schema";
 import MemoryStore from "memorystore";
 
@@ -17,12 +18,23 @@ declare global {
       lastName: string | null;
       profileImageUrl: string | null;
       locationSharingEnabled: boolean | null;
+      sharingPausedUntil: Date | null;
+      sharingResumePlaceId: number | null;
       locationHistoryEnabled: boolean | null;
       notificationsEnabled: boolean | null;
+      locationRetentionDays: number | null;
+      autoLoggingEnabled: boolean;
+      locationLogIntervalMinutes: number;
     }
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number }; // Written by passport.serializeUser
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -38,7 +50,27 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// The account fields the client sees (and caches as the auth user); never the password hash
+export function toAuthUser(user: Express.User) {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profileImageUrl: user.profileImageUrl,
+    locationSharingEnabled: user.locationSharingEnabled ?? true,
+    sharingPausedUntil: user.sharingPausedUntil,
+    sharingResumePlaceId: user.sharingResumePlaceId,
+    locationHistoryEnabled: user.locationHistoryEnabled ?? true,
+    notificationsEnabled: user.notificationsEnabled ?? true,
+    locationRetentionDays: user.locationRetentionDays ?? null,
+    autoLoggingEnabled: user.autoLoggingEnabled,
+    locationLogIntervalMinutes: user.locationLogIntervalMinutes,
+  };
+}
+
+// Returns the session middleware so non-HTTP entry points (the WebSocket upgrade) can read the same sessions
+export function setupAuth(app: Express): RequestHandler {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   
   // Use memory store for sessions with better persistence settings
@@ -67,8 +99,10 @@ export function setupAuth(app: Express) {
     name: 'familylocator.sid', // Custom session name
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -125,18 +159,12 @@ export function setupAuth(app: Express) {
         notificationsEnabled: true,
       });
 
+      // New accounts start with history on, so schedule their automatic location logging
+      await locationLogger.enable(user.id);
+
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json({
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          profileImageUrl: user.profileImageUrl,
-          locationSharingEnabled: user.locationSharingEnabled ?? true,
-          locationHistoryEnabled: user.locationHistoryEnabled ?? true,
-          notificationsEnabled: user.notificationsEnabled ?? true,
-        });
+        res.status(201).json(toAuthUser(user));
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -156,16 +184,7 @@ export function setupAuth(app: Express) {
         if (err) {
           return next(err);
         }
-        res.status(200).json({
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          profileImageUrl: user.profileImageUrl,
-          locationSharingEnabled: user.locationSharingEnabled ?? true,
-          locationHistoryEnabled: user.locationHistoryEnabled ?? true,
-          notificationsEnabled: user.notificationsEnabled ?? true,
-        });
+        res.status(200).json(toAuthUser(user));
       });
     })(req, res, next);
   });
@@ -181,16 +200,7 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated() || !req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    res.json({
-      id: req.user.id,
-      email: req.user.email,
-      firstName: req.user.firstName,
-      lastName: req.user.lastName,
-      profileImageUrl: req.user.profileImageUrl,
-      locationSharingEnabled: req.user.locationSharingEnabled ?? true,
-      locationHistoryEnabled: req.user.locationHistoryEnabled ?? true,
-      notificationsEnabled: req.user.notificationsEnabled ?? true,
-    });
+    res.json(toAuthUser(req.user));
   });
 
   // Alias for compatibility with frontend useAuth hook
@@ -198,17 +208,10 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated() || !req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    res.json({
-      id: req.user.id,
-      email: req.user.email,
-      firstName: req.user.firstName,
-      lastName: req.user.lastName,
-      profileImageUrl: req.user.profileImageUrl,
-      locationSharingEnabled: req.user.locationSharingEnabled ?? true,
-      locationHistoryEnabled: req.user.locationHistoryEnabled ?? true,
-      notificationsEnabled: req.user.notificationsEnabled ?? true,
-    });
+    res.json(toAuthUser(req.user));
   });
+
+  return sessionMiddleware;
 }
 
 export function isAuthenticated(req: any, res: any, next: any) {
@@ -0,0 +1,18 @@
+// Clients send the time a fix was captured on the device. Their clocks drift, so a capture time a little
+// ahead of the server is pulled back to the receive time; anything further out (or implausibly old for a
+// live or buffered upload - older history goes through import) is rejected.
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MAX_CAPTURE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The capture time to store for a fix, or null when the claimed time can't be trusted
+export function resolveCaptureTime(claimed: Date | null | undefined, receivedAt: Date): Date | null {
+  if (!claimed) {
+    return receivedAt;
+  }
+
+  const aheadMs = claimed.getTime() - receivedAt.getTime();
+  if (isNaN(aheadMs) || aheadMs > MAX_CLOCK_SKEW_MS || -aheadMs > MAX_CAPTURE_AGE_MS) {
+    return null;
+  }
+  return aheadMs > 0 ? receivedAt : claimed;
+}
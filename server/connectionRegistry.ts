@@ -0,0 +1,54 @@
+import { WebSocket } from "ws";
+
+// Tracks every live WebSocket per user, so someone signed in on a phone and a laptop gets updates on both
+export class ConnectionRegistry {
+  private connections = new Map<number, Set<WebSocket>>();
+
+  // Returns true when this is the user's first live connection
+  add(userId: number, ws: WebSocket): boolean {
+    const sockets = this.connections.get(userId) ?? new Set<WebSocket>();
+    const isFirst = sockets.size === 0;
+    sockets.add(ws);
+    this.connections.set(userId, sockets);
+    return isFirst;
+  }
+
+  // Returns true when this was the user's last live connection
+  remove(userId: number, ws: WebSocket): boolean {
+    const sockets = this.connections.get(userId);
+    if (!sockets || !sockets.delete(ws)) {
+      return false;
+    }
+    if (sockets.size === 0) {
+      this.connections.delete(userId);
+      return true;
+    }
+    return false;
+  }
+
+  // Send a message to every open socket of each user
+  send(userIds: number[], message: Record<string, unknown>) {
+    const payload = JSON.stringify(message);
+    userIds.forEach(userId => {
+      this.connections.get(userId)?.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(payload);
+        }
+      });
+    });
+  }
+
+  forEachSocket(callback: (ws: WebSocket, userId: number) => void) {
+    this.connections.forEach((sockets, userId) => {
+      sockets.forEach(ws => callback(ws, userId));
+    });
+  }
+
+  connectionCount(userId: number): number {
+    return this.connections.get(userId)?.size ?? 0;
+  }
+
+  get userCount(): number {
+    return this.connections.size;
+  }
+}
@@ -0,0 +1,107 @@
+// Bundled gazetteer for the offline reverse geocoder: populated places with their centre coordinates.
+// Extend freely; lookups pick the nearest entry within the provider's search radius.
+
+export interface GazetteerEntry {
+  name: string;
+  region: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // San Francisco Bay Area
+  { name: "San Ramon", region: "CA", country: "US", latitude: 37.7799, longitude: -121.978 },
+  { name: "Danville", region: "CA", country: "US", latitude: 37.8216, longitude: -121.9999 },
+  { name: "Dublin", region: "CA", country: "US", latitude: 37.7022, longitude: -121.9358 },
+  { name: "Pleasanton", region: "CA", country: "US", latitude: 37.6624, longitude: -121.8747 },
+  { name: "Livermore", region: "CA", country: "US", latitude: 37.6819, longitude: -121.768 },
+  { name: "Walnut Creek", region: "CA", country: "US", latitude: 37.9101, longitude: -122.0652 },
+  { name: "Concord", region: "CA", country: "US", latitude: 37.978, longitude: -122.0311 },
+  { name: "Lafayette", region: "CA", country: "US", latitude: 37.8858, longitude: -122.118 },
+  { name: "Castro Valley", region: "CA", country: "US", latitude: 37.6941, longitude: -122.0864 },
+  { name: "Hayward", region: "CA", country: "US", latitude: 37.6688, longitude: -122.0808 },
+  { name: "Fremont", region: "CA", country: "US", latitude: 37.5485, longitude: -121.9886 },
+  { name: "Oakland", region: "CA", country: "US", latitude: 37.8044, longitude: -122.2712 },
+  { name: "Berkeley", region: "CA", country: "US", latitude: 37.8716, longitude: -122.2727 },
+  { name: "San Francisco", region: "CA", country: "US", latitude: 37.7749, longitude: -122.4194 },
+  { name: "Daly City", region: "CA", country: "US", latitude: 37.6879, longitude: -122.4702 },
+  { name: "San Mateo", region: "CA", country: "US", latitude: 37.563, longitude: -122.3255 },
+  { name: "Redwood City", region: "CA", country: "US", latitude: 37.4852, longitude: -122.2364 },
+  { name: "Palo Alto", region: "CA", country: "US", latitude: 37.4419, longitude: -122.143 },
+  { name: "Mountain View", region: "CA", country: "US", latitude: 37.3861, longitude: -122.0839 },
+  { name: "Sunnyvale", region: "CA", country: "US", latitude: 37.3688, longitude: -122.0363 },
+  { name: "Santa Clara", region: "CA", country: "US", latitude: 37.3541, longitude: -121.9552 },
+  { name: "San Jose", region: "CA", country: "US", latitude: 37.3382, longitude: -121.8863 },
+  { name: "Milpitas", region: "CA", country: "US", latitude: 37.4323, longitude: -121.8996 },
+  { name: "San Rafael", region: "CA", country: "US", latitude: 37.9735, longitude: -122.5311 },
+  { name: "Vallejo", region: "CA", country: "US", latitude: 38.1041, longitude: -122.2566 },
+  { name: "Tracy", region: "CA", country: "US", latitude: 37.7397, longitude: -121.4252 },
+
+  // United States
+  { name: "Sacramento", region: "CA", country: "US", latitude: 38.5816, longitude: -121.4944 },
+  { name: "Los Angeles", region: "CA", country: "US", latitude: 34.0522, longitude: -118.2437 },
+  { name: "San Diego", region: "CA", country: "US", latitude: 32.7157, longitude: -117.1611 },
+  { name: "Fresno", region: "CA", country: "US", latitude: 36.7378, longitude: -119.7871 },
+  { name: "Las Vegas", region: "NV", country: "US", latitude: 36.1699, longitude: -115.1398 },
+  { name: "Reno", region: "NV", country: "US", latitude: 39.5296, longitude: -119.8138 },
+  { name: "Portland", region: "OR", country: "US", latitude: 45.5152, longitude: -122.6784 },
+  { name: "Seattle", region: "WA", country: "US", latitude: 47.6062, longitude: -122.3321 },
+  { name: "Phoenix", region: "AZ", country: "US", latitude: 33.4484, longitude: -112.074 },
+  { name: "Salt Lake City", region: "UT", country: "US", latitude: 40.7608, longitude: -111.891 },
+  { name: "Denver", region: "CO", country: "US", latitude: 39.7392, longitude: -104.9903 },
+  { name: "Dallas", region: "TX", country: "US", latitude: 32.7767, longitude: -96.797 },
+  { name: "Houston", region: "TX", country: "US", latitude: 29.7604, longitude: -95.3698 },
+  { name: "Austin", region: "TX", country: "US", latitude: 30.2672, longitude: -97.7431 },
+  { name: "Chicago", region: "IL", country: "US", latitude: 41.8781, longitude: -87.6298 },
+  { name: "Minneapolis", region: "MN", country: "US", latitude: 44.9778, longitude: -93.265 },
+  { name: "Atlanta", region: "GA", country: "US", latitude: 33.749, longitude: -84.388 },
+  { name: "Miami", region: "FL", country: "US", latitude: 25.7617, longitude: -80.1918 },
+  { name: "Orlando", region: "FL", country: "US", latitude: 28.5383, longitude: -81.3792 },
+  { name: "Washington", region: "DC", country: "US", latitude: 38.9072, longitude: -77.0369 },
+  { name: "Philadelphia", region: "PA", country: "US", latitude: 39.9526, longitude: -75.1652 },
+  { name: "New York", region: "NY", country: "US", latitude: 40.7128, longitude: -74.006 },
+  { name: "Boston", region: "MA", country: "US", latitude: 42.3601, longitude: -71.0589 },
+  { name: "Honolulu", region: "HI", country: "US", latitude: 21.3069, longitude: -157.8583 },
+  { name: "Anchorage", region: "AK", country: "US", latitude: 61.2181, longitude: -149.9003 },
+
+  // Rest of the world
+  { name: "Vancouver", region: "BC", country: "CA", latitude: 49.2827, longitude: -123.1207 },
+  { name: "Toronto", region: "ON", country: "CA", latitude: 43.6532, longitude: -79.3832 },
+  { name: "Montreal", region: "QC", country: "CA", latitude: 45.5017, longitude: -73.5673 },
+  { name: "Mexico City", region: "CDMX", country: "MX", latitude: 19.4326, longitude: -99.1332 },
+  { name: "São Paulo", region: "SP", country: "BR", latitude: -23.5505, longitude: -46.6333 },
+  { name: "Buenos Aires", region: "CABA", country: "AR", latitude: -34.6037, longitude: -58.3816 },
+  { name: "London", region: "England", country: "GB", latitude: 51.5074, longitude: -0.1278 },
+  { name: "Dublin", region: "Leinster", country: "IE", latitude: 53.3498, longitude: -6.2603 },
+  { name: "Paris", region: "Île-de-France", country: "FR", latitude: 48.8566, longitude: 2.3522 },
+  { name: "Madrid", region: "Madrid", country: "ES", latitude: 40.4168, longitude: -3.7038 },
+  { name: "Lisbon", region: "Lisbon", country: "PT", latitude: 38.7223, longitude: -9.1393 },
+  { name: "Rome", region: "Lazio", country: "IT", latitude: 41.9028, longitude: 12.4964 },
+  { name: "Berlin", region: "Berlin", country: "DE", latitude: 52.52, longitude: 13.405 },
+  { name: "Munich", region: "Bavaria", country: "DE", latitude: 48.1351, longitude: 11.582 },
+  { name: "Amsterdam", region: "North Holland", country: "NL", latitude: 52.3676, longitude: 4.9041 },
+  { name: "Stockholm", region: "Stockholm", country: "SE", latitude: 59.3293, longitude: 18.0686 },
+  { name: "Warsaw", region: "Masovia", country: "PL", latitude: 52.2297, longitude: 21.0122 },
+  { name: "Athens", region: "Attica", country: "GR", latitude: 37.9838, longitude: 23.7275 },
+  { name: "Istanbul", region: "Istanbul", country: "TR", latitude: 41.0082, longitude: 28.9784 },
+  { name: "Cairo", region: "Cairo", country: "EG", latitude: 30.0444, longitude: 31.2357 },
+  { name: "Lagos", region: "Lagos", country: "NG", latitude: 6.5244, longitude: 3.3792 },
+  { name: "Nairobi", region: "Nairobi", country: "KE", latitude: -1.2921, longitude: 36.8219 },
+  { name: "Johannesburg", region: "Gauteng", country: "ZA", latitude: -26.2041, longitude: 28.0473 },
+  { name: "Dubai", region: "Dubai", country: "AE", latitude: 25.2048, longitude: 55.2708 },
+  { name: "Mumbai", region: "Maharashtra", country: "IN", latitude: 19.076, longitude: 72.8777 },
+  { name: "Delhi", region: "Delhi", country: "IN", latitude: 28.7041, longitude: 77.1025 },
+  { name: "Bangalore", region: "Karnataka", country: "IN", latitude: 12.9716, longitude: 77.5946 },
+  { name: "Singapore", region: "Singapore", country: "SG", latitude: 1.3521, longitude: 103.8198 },
+  { name: "Bangkok", region: "Bangkok", country: "TH", latitude: 13.7563, longitude: 100.5018 },
+  { name: "Hong Kong", region: "Hong Kong", country: "HK", latitude: 22.3193, longitude: 114.1694 },
+  { name: "Shanghai", region: "Shanghai", country: "CN", latitude: 31.2304, longitude: 121.4737 },
+  { name: "Beijing", region: "Beijing", country: "CN", latitude: 39.9042, longitude: 116.4074 },
+  { name: "Seoul", region: "Seoul", country: "KR", latitude: 37.5665, longitude: 126.978 },
+  { name: "Tokyo", region: "Tokyo", country: "JP", latitude: 35.6762, longitude: 139.6503 },
+  { name: "Manila", region: "Metro Manila", country: "PH", latitude: 14.5995, longitude: 120.9842 },
+  { name: "Sydney", region: "NSW", country: "AU", latitude: -33.8688, longitude: 151.2093 },
+  { name: "Melbourne", region: "VIC", country: "AU", latitude: -37.8136, longitude: 144.9631 },
+  { name: "Auckland", region: "Auckland", country: "NZ", latitude: -36.8485, longitude: 174.7633 },
+];
@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { realtimeEvents } from "./realtimeEvents";
+import { isSharingLocation } from "./sharingPause";
+import type { DeviceAlertRule, Location, User } from "@shared/schema";
+
+type CheckedRule = DeviceAlertRule & { member: User };
+
+// Evaluates low-battery and offline rules against each member's latest fix. A rule fires once when its
+// condition starts and stays quiet until the device recovers, so each episode alerts exactly once.
+class DeviceAlertChecker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private readonly CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+  private readonly STALE_BATTERY_MS = 60 * 60 * 1000; // Older battery readings don't say much about the phone now
+  private readonly BATTERY_RECOVERY_MARGIN = 5; // Percent above the threshold before a low-battery episode ends
+
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    log("Starting device alert checks");
+
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.checkAll();
+      } catch (error) {
+        log(`Error checking device alerts: ${error}`);
+      }
+    }, this.CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      log("Stopped device alert checks");
+    }
+  }
+
+  async checkAll(now = new Date()) {
+    // Skip a tick rather than overlap if the previous pass is still running
+    if (this.isChecking) {
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      const rules = await storage.getEnabledDeviceAlertRules();
+
+      // Several rules often watch the same member, or belong to the same viewer
+      const latestLocations = new Map<number, Promise<Location | undefined>>();
+      const sharingMemberIds = new Map<number, Promise<Set<number>>>();
+
+      for (const rule of rules) {
+        try {
+          if (!sharingMemberIds.has(rule.userId)) {
+            sharingMemberIds.set(rule.userId, storage.getFamilyMembers(rule.userId)
+              .then(members => new Set(members.filter(member => isSharingLocation(member, now)).map(member => member.id))));
+          }
+          const isSharing = (await sharingMemberIds.get(rule.userId)!).has(rule.memberId);
+          // Suspect fixes (cell-tower only, indoors) still show the phone is online and report its battery
+          if (isSharing && !latestLocations.has(rule.memberId)) {
+            latestLocations.set(rule.memberId, storage.getUserLatestLocation(rule.memberId, true));
+          }
+
+          await this.check(rule, isSharing ? await latestLocations.get(rule.memberId)! : undefined, isSharing, now);
+        } catch (error) {
+          log(`Failed to check device alert ${rule.id}: ${error}`);
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async check(rule: CheckedRule, latestLocation: Location | undefined, isSharing: boolean, now: Date) {
+    // No longer connected, or not sharing (or paused): nothing to alert on, and a later episode starts afresh
+    if (!isSharing) {
+      if (rule.episodeStartedAt) {
+        await storage.endDeviceAlertEpisode(rule.id);
+      }
+      return;
+    }
+    if (!latestLocation?.timestamp) {
+      return;
+    }
+
+    const name = this.memberName(rule.member);
+    const ageMs = now.getTime() - latestLocation.timestamp.getTime();
+
+    if (rule.kind === 'low_battery') {
+      const { batteryLevel, isCharging } = latestLocation;
+      if (batteryLevel === null) {
+        return;
+      }
+
+      const percent = Math.round(batteryLevel * 100);
+      if (isCharging || percent >= rule.threshold + this.BATTERY_RECOVERY_MARGIN) {
+        if (rule.episodeStartedAt) {
+          await storage.endDeviceAlertEpisode(rule.id);
+        }
+      } else if (percent < rule.threshold && ageMs <= this.STALE_BATTERY_MS) {
+        await this.alert(rule, 'device_low_battery', 'Low Battery', `${name}'s phone is below ${rule.threshold}% (${percent}%)`, {
+          batteryLevel,
+        });
+      }
+      return;
+    }
+
+    if (rule.kind === 'offline') {
+      if (ageMs < rule.threshold * 60 * 1000) {
+        if (rule.episodeStartedAt) {
+          await storage.endDeviceAlertEpisode(rule.id);
+        }
+      } else {
+        await this.alert(rule, 'device_offline', 'Phone Offline', `No location from ${name} for ${this.formatMinutes(rule.threshold)}`, {
+          lastSeenAt: latestLocation.timestamp.toISOString(),
+        });
+      }
+    }
+  }
+
+  private async alert(rule: CheckedRule, type: string, title: string, message: string, data: Record<string, unknown>) {
+    // Claim the episode first so concurrent checks (or other instances) alert at most once
+    const claimed = await storage.startDeviceAlertEpisode(rule.id);
+    if (!claimed) {
+      return;
+    }
+
+    log(`Device alert for user ${rule.userId}: ${message}`);
+
+    await storage.createNotification({
+      userId: rule.userId,
+      type,
+      title,
+      message,
+      data: { ruleId: rule.id, memberId: rule.memberId, ...data },
+      isRead: false,
+    });
+
+    realtimeEvents.publish('notification', {
+      userId: rule.userId,
+      notificationType: type,
+      message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private formatMinutes(minutes: number) {
+    if (minutes % 60 !== 0) {
+      return `${minutes} minutes`;
+    }
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+
+  private memberName(member: User) {
+    return member.firstName || member.email;
+  }
+}
+
+export const deviceAlertChecker = new DeviceAlertChecker();
+
+// Graceful shutdown handling
+process.on('SIGTERM', () => {
+  deviceAlertChecker.stop();
+});
+
+process.on('SIGINT', () => {
+  deviceAlertChecker.stop();
+});
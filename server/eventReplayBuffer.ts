@@ -0,0 +1,72 @@
+interface BufferedEvent {
+  seq: number;
+  recipientIds: number[];
+  message: Record<string, unknown>;
+  recordedAt: number;
+}
+
+export type ReplayResult =
+  | { complete: true; events: Array<Record<string, unknown>> }
+  | { complete: false }; // Some missed events were already evicted; the client must refetch its state
+
+// Recent realtime events by sequence number (assigned by the realtime broker), so a client that
+// reconnects can ask for everything after the last sequence number it saw
+export class EventReplayBuffer {
+  private events: BufferedEvent[] = [];
+  private lastSeq = 0;
+
+  constructor(
+    private readonly maxEvents = 5000,
+    private readonly maxAgeMs = 30 * 60 * 1000,
+  ) {}
+
+  get currentSeq(): number {
+    return this.lastSeq;
+  }
+
+  // Returns the message stamped with its sequence number
+  record(seq: number, recipientIds: number[], message: Record<string, unknown>): Record<string, unknown> & { seq: number } {
+    const stamped = { ...message, seq };
+    const event = { seq, recipientIds, message: stamped, recordedAt: Date.now() };
+
+    // Events from other instances can arrive slightly out of order; keep the buffer sorted
+    let index = this.events.length;
+    while (index > 0 && this.events[index - 1].seq > seq) {
+      index--;
+    }
+    this.events.splice(index, 0, event);
+    this.lastSeq = Math.max(this.lastSeq, seq);
+
+    this.evict();
+    return stamped;
+  }
+
+  replay(userId: number, afterSeq: number): ReplayResult {
+    this.evict();
+
+    // A sequence number from the future came from another process; anything after afterSeq that has
+    // already been evicted would be silently lost. Either way the client has to resync.
+    const oldestSeq = this.events.length > 0 ? this.events[0].seq : this.lastSeq + 1;
+    if (afterSeq > this.lastSeq || (afterSeq < oldestSeq - 1 && afterSeq < this.lastSeq)) {
+      return { complete: false };
+    }
+
+    return {
+      complete: true,
+      events: this.events
+        .filter(event => event.seq > afterSeq && event.recipientIds.includes(userId))
+        .map(event => event.message),
+    };
+  }
+
+  private evict() {
+    const cutoff = Date.now() - this.maxAgeMs;
+    let drop = Math.max(0, this.events.length - this.maxEvents);
+    while (drop < this.events.length && this.events[drop].recordedAt < cutoff) {
+      drop++;
+    }
+    if (drop > 0) {
+      this.events.splice(0, drop);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { isWithinGeofence } from "./geofencing";
+import { realtimeEvents } from "./realtimeEvents";
+import { isSharingPaused } from "./sharingPause";
+import { getLocalTimeParts, formatMinuteOfDay } from "./localTime";
+import type { PlaceExpectation, Place, User } from "@shared/schema";
+
+type ScheduledExpectation = PlaceExpectation & { place: Place; member: User };
+
+class ExpectationScheduler {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isEvaluating = false;
+  private readonly CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+  private readonly ARRIVAL_GRACE_MINUTES = 30; // Missed deadline checks older than this are dropped, not alerted late
+  private readonly STALE_LOCATION_MS = 30 * 60 * 1000; // Older fixes can't tell us someone just left
+
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    log("Starting schedule expectation checks");
+
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.evaluateAll();
+      } catch (error) {
+        log(`Error evaluating schedule expectations: ${error}`);
+      }
+    }, this.CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      log("Stopped schedule expectation checks");
+    }
+  }
+
+  async evaluateAll(now = new Date()) {
+    // Skip a tick rather than overlap if the previous pass is still running
+    if (this.isEvaluating) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      const expectations = await storage.getEnabledExpectations();
+      for (const expectation of expectations) {
+        try {
+          await this.evaluate(expectation, now);
+        } catch (error) {
+          log(`Failed to evaluate expectation ${expectation.id}: ${error}`);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private async evaluate(expectation: ScheduledExpectation, now: Date) {
+    const local = getLocalTimeParts(now, expectation.timezone);
+    if (expectation.daysOfWeek && !expectation.daysOfWeek.includes(local.dayOfWeek)) {
+      return;
+    }
+    if (expectation.lastSettledOn === local.date) {
+      return;
+    }
+    // A paused member's whereabouts are off limits, including "hasn't arrived" and "left early"
+    if (isSharingPaused(expectation.member, now)) {
+      return;
+    }
+
+    const latestLocation = await storage.getUserLatestLocation(expectation.memberId);
+    const isFresh = !!latestLocation?.timestamp &&
+      now.getTime() - latestLocation.timestamp.getTime() <= this.STALE_LOCATION_MS;
+    const isInside = !!latestLocation &&
+      isWithinGeofence(latestLocation.latitude, latestLocation.longitude, expectation.place);
+    const minutesPastDeadline = local.minuteOfDay - expectation.minuteOfDay;
+
+    if (expectation.kind === 'arrive_by') {
+      // Only judged once the deadline passes; being there earlier in the day doesn't count
+      if (minutesPastDeadline < 0 || minutesPastDeadline >= this.ARRIVAL_GRACE_MINUTES) {
+        return;
+      }
+      // An old fix at the place (say, from yesterday) says nothing about whether they arrived today
+      if (isFresh && isInside) {
+        await storage.settleExpectation(expectation.id, local.date);
+      } else {
+        await this.alert(
+          expectation,
+          local.date,
+          'expectation_missed_arrival',
+          `${this.memberName(expectation.member)} hasn't arrived at ${expectation.place.name} by ${formatMinuteOfDay(expectation.minuteOfDay)}`,
+        );
+      }
+      return;
+    }
+
+    if (expectation.kind === 'stay_until') {
+      if (minutesPastDeadline >= 0) {
+        // Stayed until the deadline (or never showed up) - the window is over for today
+        await storage.settleExpectation(expectation.id, local.date);
+      } else if (isInside) {
+        if (expectation.lastSeenInsideOn !== local.date) {
+          await storage.markExpectationSeenInside(expectation.id, local.date);
+        }
+      } else if (isFresh && expectation.lastSeenInsideOn === local.date) {
+        await this.alert(
+          expectation,
+          local.date,
+          'expectation_left_early',
+          `${this.memberName(expectation.member)} left ${expectation.place.name} before ${formatMinuteOfDay(expectation.minuteOfDay)}`,
+        );
+      }
+    }
+  }
+
+  private async alert(expectation: ScheduledExpectation, localDate: string, type: string, message: string) {
+    // Settle first so concurrent checks (or other instances) alert at most once per day
+    const claimed = await storage.settleExpectation(expectation.id, localDate);
+    if (!claimed) {
+      return;
+    }
+
+    log(`Schedule alert for user ${expectation.userId}: ${message}`);
+
+    await storage.createNotification({
+      userId: expectation.userId,
+      type,
+      title: 'Schedule Alert',
+      message,
+      data: {
+        expectationId: expectation.id,
+        memberId: expectation.memberId,
+        placeId: expectation.placeId,
+        placeName: expectation.place.name,
+      },
+      isRead: false,
+    });
+
+    realtimeEvents.publish('notification', {
+      userId: expectation.userId,
+      notificationType: type,
+      message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private memberName(member: User) {
+    return member.firstName || member.email;
+  }
+}
+
+export const expectationScheduler = new ExpectationScheduler();
+
+// Graceful shutdown handling
+process.on('SIGTERM', () => {
+  expectationScheduler.stop();
+});
+
+process.on('SIGINT', () => {
+  expectationScheduler.stop();
+});
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { advanceGeofenceTracking, observeGeofence } from './geofencing';
+import type { PlaceBoundary } from '@shared/schema';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const START = new Date('2024-05-01T08:00:00Z');
+
+const home = { latitude: 47.0, longitude: 8.0, radius: 100, boundary: null };
+
+// A fix `meters` north of home's pin, `seconds` into the trace
+interface TraceFix {
+  meters: number;
+  seconds: number;
+  accuracy?: number;
+}
+
+// Replay a trace through the hysteresis the way checkGeofenceTransitions does, returning the index of
+// every fix that confirmed a transition and where the user ended up
+function replay(trace: TraceFix[], place: Parameters<typeof observeGeofence>[1] = home, startInside = false) {
+  let tracking = { isInside: startInside, pendingInside: null as boolean | null, pendingSince: null as Date | null, pendingFixCount: 0 };
+  const transitions: number[] = [];
+  trace.forEach((point, index) => {
+    const fix = {
+      latitude: home.latitude + point.meters / METERS_PER_DEGREE_LAT,
+      longitude: home.longitude,
+      accuracy: point.accuracy ?? 10,
+      timestamp: new Date(START.getTime() + point.seconds * 1000),
+    };
+    const result = advanceGeofenceTracking(tracking, observeGeofence(fix, place), fix.timestamp);
+    tracking = result.tracking;
+    if (result.transitioned) {
+      transitions.push(index);
+    }
+  });
+  return { transitions, isInside: tracking.isInside };
+}
+
+describe('observeGeofence', () => {
+  const at = (meters: number, accuracy: number | null = 10) => ({
+    latitude: home.latitude + meters / METERS_PER_DEGREE_LAT,
+    longitude: home.longitude,
+    accuracy,
+    timestamp: START,
+  });
+
+  it('counts a fix whose centre is within the radius as inside', () => {
+    assert.equal(observeGeofence(at(90), home), 'inside');
+  });
+
+  it('needs the whole accuracy circle past the exit margin to count as outside', () => {
+    // Radius 100 gives a 50m exit margin
+    assert.equal(observeGeofence(at(140), home), 'uncertain');
+    assert.equal(observeGeofence(at(170, 30), home), 'uncertain');
+    assert.equal(observeGeofence(at(170, 10), home), 'outside');
+  });
+
+  it('treats fixes too inaccurate to use as uncertain', () => {
+    assert.equal(observeGeofence(at(0, 500), home), 'uncertain');
+  });
+
+  it('uses the drawn boundary instead of the radius', () => {
+    const offset = 200 / METERS_PER_DEGREE_LAT;
+    const square: PlaceBoundary = [
+      [home.latitude - offset, home.longitude - offset],
+      [home.latitude + offset, home.longitude - offset],
+      [home.latitude + offset, home.longitude + offset],
+      [home.latitude - offset, home.longitude + offset],
+    ];
+    const yard = { ...home, boundary: square };
+    assert.equal(observeGeofence(at(150), yard), 'inside');
+    assert.equal(observeGeofence(at(215), yard), 'uncertain');
+    assert.equal(observeGeofence(at(300), yard), 'outside');
+  });
+});
+
+describe('advanceGeofenceTracking', () => {
+  it('confirms an arrival on the third consecutive inside fix', () => {
+    const { transitions, isInside } = replay([
+      { meters: 400, seconds: 0 },
+      { meters: 50, seconds: 10 },
+      { meters: 30, seconds: 20 },
+      { meters: 10, seconds: 30 },
+    ]);
+    assert.deepEqual(transitions, [3]);
+    assert.equal(isInside, true);
+  });
+
+  it('confirms an arrival on two inside fixes spanning the dwell time', () => {
+    const { transitions } = replay([
+      { meters: 20, seconds: 0 },
+      { meters: 25, seconds: 90 },
+    ]);
+    assert.deepEqual(transitions, [1]);
+  });
+
+  it('keeps a pending transition through uncertain fixes', () => {
+    const { transitions } = replay([
+      { meters: 20, seconds: 0 },
+      { meters: 0, seconds: 5, accuracy: 400 },
+      { meters: 20, seconds: 10 },
+      { meters: 120, seconds: 15 },
+      { meters: 20, seconds: 20 },
+    ]);
+    assert.deepEqual(transitions, [4]);
+  });
+
+  it('ignores GPS jitter across the fence edge while at home', () => {
+    const jitter = [95, 130, 105, 140, 98, 150, 110, 90].map((meters, index) => ({ meters, seconds: index * 30 }));
+    const { transitions, isInside } = replay(jitter, home, true);
+    assert.deepEqual(transitions, []);
+    assert.equal(isInside, true);
+  });
+
+  it('drops a single stray fix instead of leaving', () => {
+    const { transitions, isInside } = replay([
+      { meters: 10, seconds: 0 },
+      { meters: 400, seconds: 30 },
+      { meters: 10, seconds: 60 },
+      { meters: 400, seconds: 90 },
+      { meters: 10, seconds: 120 },
+    ], home, true);
+    assert.deepEqual(transitions, []);
+    assert.equal(isInside, true);
+  });
+
+  it('replays a departure and a later return', () => {
+    const { transitions, isInside } = replay([
+      { meters: 10, seconds: 0 },
+      { meters: 300, seconds: 30 },
+      { meters: 800, seconds: 60 },
+      { meters: 2000, seconds: 120 },
+      { meters: 2000, seconds: 3600 },
+      { meters: 60, seconds: 4000 },
+      { meters: 20, seconds: 4010 },
+      { meters: 15, seconds: 4020 },
+    ], home, true);
+    assert.deepEqual(transitions, [3, 7]);
+    assert.equal(isInside, true);
+  });
+});
@@ -1,7 +1,25 @@
 import { storage } from './storage';
+import { realtimeEvents } from './realtimeEvents';
+import { shouldNotifySubscriber, type GeofenceAction } from './alertSubscriptions';
+import { isSharingPaused, sharingPause } from './sharingPause';
+import type { GeofenceState, Location, Place, PlaceBoundary } from '@shared/schema';
+
+type GeofenceShape = Pick<Place, 'latitude' | 'longitude' | 'radius' | 'boundary'>;
+type GeofenceFix = Pick<Location, 'latitude' | 'longitude' | 'accuracy' | 'timestamp'> & { id?: number; suspect?: boolean; capturedWhilePaused?: boolean };
+type GeofenceTracking = Pick<GeofenceState, 'isInside' | 'pendingInside' | 'pendingSince' | 'pendingFixCount'>;
+
+// What a single fix says about a place once its accuracy is taken into account
+export type GeofenceObservation = 'inside' | 'outside' | 'uncertain';
+
+// Hysteresis tuning: fixes must clear the exit margin (beyond the fence, net of accuracy) to count as outside,
+// and a transition needs either enough consecutive fixes or two fixes spanning the dwell time
+const EXIT_MARGIN_METERS = 25;
+const MAX_USABLE_ACCURACY_METERS = 150;
+const CONFIRMATION_FIX_COUNT = 3;
+const CONFIRMATION_DWELL_MS = 60 * 1000;
 
 // Calculate distance between two points using Haversine formula
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371; // Earth's radius in kilometers
   const dLat = (lat2 - lat1) * Math.PI / 180;
   const dLon = (lon2 - lon1) * Math.PI / 180;
@@ -13,21 +31,149 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c * 1000; // Return distance in meters
 }
 
-// Check if a location is within a geofence (20m radius for precise notifications)
-function isWithinGeofence(userLat: number, userLon: number, placeLat: number, placeLon: number, radiusMeters = 20): boolean {
-  const distance = calculateDistance(userLat, userLon, placeLat, placeLon);
-  return distance <= radiusMeters;
+// Ray-casting point-in-polygon test against [lat, lon] vertices
+function isPointInPolygon(lat: number, lon: number, boundary: PlaceBoundary): boolean {
+  let inside = false;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const [latI, lonI] = boundary[i];
+    const [latJ, lonJ] = boundary[j];
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Shortest distance in meters from a point to a polygon's edges, using a local flat projection
+function distanceToPolygonEdge(lat: number, lon: number, boundary: PlaceBoundary): number {
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLon = 111320 * Math.cos(lat * Math.PI / 180);
+  const project = ([vertexLat, vertexLon]: [number, number]) => [
+    (vertexLon - lon) * metersPerDegreeLon,
+    (vertexLat - lat) * metersPerDegreeLat,
+  ];
+
+  let shortest = Infinity;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const [ax, ay] = project(boundary[j]);
+    const [bx, by] = project(boundary[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    shortest = Math.min(shortest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return shortest;
+}
+
+function hasBoundary(place: GeofenceShape): place is GeofenceShape & { boundary: PlaceBoundary } {
+  return !!place.boundary && place.boundary.length >= 3;
+}
+
+// Distance in meters from a point to the outside of a place's geofence (zero when inside)
+function distanceBeyondGeofence(userLat: number, userLon: number, place: GeofenceShape): number {
+  if (hasBoundary(place)) {
+    return isPointInPolygon(userLat, userLon, place.boundary) ? 0 : distanceToPolygonEdge(userLat, userLon, place.boundary);
+  }
+  const distance = calculateDistance(userLat, userLon, place.latitude, place.longitude);
+  return Math.max(0, distance - place.radius);
+}
+
+// Distance in meters from a point to the nearest edge of a place's geofence, from either side
+export function distanceToGeofenceEdge(userLat: number, userLon: number, place: GeofenceShape): number {
+  if (hasBoundary(place)) {
+    return distanceToPolygonEdge(userLat, userLon, place.boundary);
+  }
+  const distance = calculateDistance(userLat, userLon, place.latitude, place.longitude);
+  return Math.abs(distance - place.radius);
+}
+
+// Check if a location is within a place's geofence: its polygon boundary when drawn, otherwise its radius
+export function isWithinGeofence(userLat: number, userLon: number, place: GeofenceShape): boolean {
+  if (hasBoundary(place)) {
+    return isPointInPolygon(userLat, userLon, place.boundary);
+  }
+  const distance = calculateDistance(userLat, userLon, place.latitude, place.longitude);
+  return distance <= place.radius;
+}
+
+// Classify a fix against a place. Entering needs the fix centre inside the fence; exiting needs even the
+// nearest point of the accuracy circle to be past the exit margin. Anything in between moves nothing.
+export function observeGeofence(fix: GeofenceFix, place: GeofenceShape): GeofenceObservation {
+  const accuracy = fix.accuracy ?? 0;
+  if (accuracy > MAX_USABLE_ACCURACY_METERS) {
+    return 'uncertain';
+  }
+
+  const beyond = distanceBeyondGeofence(fix.latitude, fix.longitude, place);
+  if (beyond === 0) {
+    return 'inside';
+  }
+
+  const exitMargin = hasBoundary(place) ? EXIT_MARGIN_METERS : Math.max(EXIT_MARGIN_METERS, place.radius * 0.5);
+  return beyond - accuracy >= exitMargin ? 'outside' : 'uncertain';
+}
+
+// Fold one observation into a user's tracking state for a place, confirming a transition only once
+// enough consecutive fixes (or two fixes spanning the dwell time) agree on it
+export function advanceGeofenceTracking(
+  tracking: GeofenceTracking,
+  observation: GeofenceObservation,
+  observedAt: Date,
+): { tracking: GeofenceTracking; transitioned: boolean } {
+  if (observation === 'uncertain') {
+    return { tracking, transitioned: false };
+  }
+
+  const observedInside = observation === 'inside';
+  if (observedInside === tracking.isInside) {
+    return {
+      tracking: { isInside: tracking.isInside, pendingInside: null, pendingSince: null, pendingFixCount: 0 },
+      transitioned: false,
+    };
+  }
+
+  const continuesPending = tracking.pendingInside === observedInside && tracking.pendingSince !== null;
+  const pendingSince = continuesPending ? tracking.pendingSince! : observedAt;
+  const pendingFixCount = continuesPending ? tracking.pendingFixCount + 1 : 1;
+  const dwellMs = observedAt.getTime() - pendingSince.getTime();
+
+  if (pendingFixCount >= CONFIRMATION_FIX_COUNT || (pendingFixCount >= 2 && dwellMs >= CONFIRMATION_DWELL_MS)) {
+    return {
+      tracking: { isInside: observedInside, pendingInside: null, pendingSince: null, pendingFixCount: 0 },
+      transitioned: true,
+    };
+  }
+
+  return {
+    tracking: { isInside: tracking.isInside, pendingInside: observedInside, pendingSince, pendingFixCount },
+    transitioned: false,
+  };
 }
 
-// Store the last known geofence states for each user
-const userGeofenceStates = new Map<string, Set<number>>(); // userId -> Set of place IDs user is currently inside
+function describeGeofence(place: GeofenceShape): string {
+  return place.boundary && place.boundary.length >= 3
+    ? `${place.boundary.length}-point boundary`
+    : `${place.radius}m radius`;
+}
 
-export async function checkGeofenceTransitions(userId: number, newLat: number, newLon: number) {
+export async function checkGeofenceTransitions(userId: number, fix: GeofenceFix) {
   try {
+    // Fixes flagged by the sanity filter (teleports, cell-tower guesses) must never move a geofence
+    if (fix.suspect) {
+      console.log(`Skipping geofence check for suspect fix from user ${userId}`);
+      return;
+    }
+
+    const { latitude: newLat, longitude: newLon } = fix;
+    const observedAt = fix.timestamp ?? new Date();
+
     // Get all family members' places (not just user's own places)
     const familyPlaces = await storage.getFamilyPlaces(userId);
     
-    console.log(`Checking geofences for user ${userId} at ${newLat}, ${newLon}`);
+    console.log(`Checking geofences for user ${userId} at ${newLat}, ${newLon} (±${fix.accuracy ?? '?'}m)`);
     console.log(`Found ${familyPlaces?.length || 0} places to check:`, familyPlaces?.map(p => p.name));
     
     if (!familyPlaces || familyPlaces.length === 0) {
@@ -35,62 +181,109 @@ export async function checkGeofenceTransitions(userId: number, newLat: number, n
       return; // No places to check
     }
 
-    const userKey = userId.toString();
-    const currentGeofences = userGeofenceStates.get(userKey) || new Set<number>();
-    const newGeofences = new Set<number>();
-    
-    console.log(`Current geofence states for user ${userId}:`, Array.from(currentGeofences));
+    // Load the persisted inside/outside state so restarts and other instances agree on it
+    const storedStates = await storage.getUserGeofenceStates(userId);
+    const statesByPlace = new Map(storedStates.map(state => [state.placeId, state]));
 
     // Check current position against all places
     for (const place of familyPlaces) {
       const distance = calculateDistance(newLat, newLon, place.latitude, place.longitude);
-      const isCurrentlyInside = isWithinGeofence(newLat, newLon, place.latitude, place.longitude);
+      const observation = observeGeofence(fix, place);
+      const storedState = statesByPlace.get(place.id);
+      const current: GeofenceTracking = storedState ??
+        { isInside: false, pendingInside: null, pendingSince: null, pendingFixCount: 0 };
       
-      console.log(`Place "${place.name}": ${distance.toFixed(1)}m away, inside=${isCurrentlyInside} (20m radius)`);
-      
-      if (isCurrentlyInside) {
-        newGeofences.add(place.id);
+      console.log(`Place "${place.name}": ${distance.toFixed(1)}m away, observed ${observation} (${describeGeofence(place)})`);
+
+      // A late fix captured before the one behind the current state says nothing about where the user is now
+      if (storedState?.lastFixAt && observedAt.getTime() <= storedState.lastFixAt.getTime()) {
+        console.log(`Place "${place.name}": skipping fix from ${observedAt.toISOString()}, state already reflects a newer fix`);
+        continue;
       }
 
-      const wasInside = currentGeofences.has(place.id);
+      const { tracking, transitioned } = advanceGeofenceTracking(current, observation, observedAt);
       
-      console.log(`Place "${place.name}": wasInside=${wasInside}, isCurrentlyInside=${isCurrentlyInside}`);
+      console.log(`Place "${place.name}": wasInside=${current.isInside}, pending=${tracking.pendingInside} x${tracking.pendingFixCount}`);
       
-      // Detect transitions (only send one notification per transition)
-      if (isCurrentlyInside && !wasInside) {
+      if (!transitioned) {
+        const pendingChanged = tracking.pendingInside !== current.pendingInside ||
+          tracking.pendingFixCount !== current.pendingFixCount;
+        if (pendingChanged) {
+          await storage.updateGeofencePending(userId, place.id, {
+            pendingInside: tracking.pendingInside,
+            pendingSince: tracking.pendingSince,
+            pendingFixCount: tracking.pendingFixCount,
+          }, observedAt);
+        }
+        continue;
+      }
+
+      // Detect transitions (only send one notification per transition, even if another instance races us)
+      const recorded = await storage.recordGeofenceTransition(userId, place.id, tracking.isInside, observedAt);
+      if (!recorded) {
+        console.log(`Transition for user ${userId} at place ${place.name} was already recorded`);
+        continue;
+      }
+
+      // Keep the fix that fired the alert when old history is compacted
+      if (fix.id !== undefined) {
+        await storage.markLocationGeofenceTriggered(fix.id);
+      }
+
+      if (tracking.isInside) {
         // User entered the place
         console.log(`🚨 User ${userId} entered place ${place.name} (${place.id})`);
-        await sendGeofenceNotification(userId, place, 'entered');
-      } else if (!isCurrentlyInside && wasInside) {
+        await sendGeofenceNotification(userId, place, 'entered', observedAt, !!fix.capturedWhilePaused);
+      } else {
         // User exited the place
         console.log(`🚨 User ${userId} exited place ${place.name} (${place.id})`);
-        await sendGeofenceNotification(userId, place, 'exited');
+        await sendGeofenceNotification(userId, place, 'exited', observedAt, !!fix.capturedWhilePaused);
       }
     }
 
-    // Update stored state
-    userGeofenceStates.set(userKey, newGeofences);
-
   } catch (error) {
     console.error('Error checking geofence transitions:', error);
   }
 }
 
-async function sendGeofenceNotification(userId: number, place: any, action: 'entered' | 'exited') {
+async function sendGeofenceNotification(userId: number, place: Place, action: GeofenceAction, occurredAt: Date, capturedWhilePaused: boolean) {
   try {
     const user = await storage.getUser(userId);
     if (!user) return;
 
+    // A paused user's movements stay private, except the arrival that ends their pause
+    if (isSharingPaused(user)) {
+      const resumesSharing = action === 'entered' && user.sharingResumePlaceId === place.id;
+      if (!resumesSharing) {
+        console.log(`Sharing paused for user ${userId}, not notifying family of ${action} ${place.name}`);
+        return;
+      }
+      await sharingPause.resume(userId, 'arrived', place);
+    } else if (capturedWhilePaused) {
+      // A fix from a pause that has since ended, uploaded late: the movement stays as private as it was
+      console.log(`Fix from user ${userId} was captured during a sharing pause, not notifying family of ${action} ${place.name}`);
+      return;
+    }
+
     const message = `${user.firstName || user.email} has ${action} ${place.name}`;
     const title = `Location Alert`;
     
     console.log(`Geofence notification: ${message}`);
     
-    // Send notification to all family members
+    // Send notification to the family members whose subscription rules for this place allow it
     const familyMembers = await storage.getFamilyMembers(userId);
+    const subscriptions = await storage.getPlaceSubscriptions(place.id);
+    const recipients = familyMembers.filter(familyMember => shouldNotifySubscriber(
+      subscriptions.filter(rule => rule.userId === familyMember.id),
+      userId,
+      action,
+      occurredAt,
+    ));
     
-    // Create database notifications for all family members
-    for (const familyMember of familyMembers) {
+    console.log(`Notifying ${recipients.length} of ${familyMembers.length} family members`);
+    
+    // Create database notifications for subscribed family members
+    for (const familyMember of recipients) {
       await storage.createNotification({
         userId: familyMember.id,
         type: `geofence_${action}`,
@@ -120,24 +313,22 @@ async function sendGeofenceNotification(userId: number, place: any, action: 'ent
       isRead: false
     });
     
-    // Broadcast to WebSocket clients for real-time updates
-    if ((global as any).broadcastNotification) {
-      (global as any).broadcastNotification({
-        type: 'geofence',
-        userId,
-        userName: user.firstName || user.email,
-        placeName: place.name,
-        action,
-        message,
-        timestamp: new Date().toISOString()
-      });
-    }
+    // Broadcast to the family's WebSocket channel for real-time updates
+    realtimeEvents.publish('geofence', {
+      userId,
+      userName: user.firstName || user.email,
+      placeName: place.name,
+      action,
+      message,
+      recipientUserIds: [userId, ...recipients.map(recipient => recipient.id)],
+      timestamp: occurredAt.toISOString()
+    });
 
   } catch (error) {
     console.error('Error sending geofence notification:', error);
   }
 }
 
-export function clearUserGeofenceState(userId: number) {
-  userGeofenceStates.delete(userId.toString());
+export async function clearUserGeofenceState(userId: number) {
+  await storage.clearUserGeofenceStates(userId);
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { ScheduledJob } from "@shared/schema";
+
+// Runs a claimed job and resolves to its next run time, or null when it shouldn't run again
+export type JobHandler = (job: ScheduledJob) => Promise<Date | null>;
+
+// Polls the scheduled_jobs table and runs due jobs with the handler registered for their type. Jobs live
+// in the database, so they survive restarts, and leases keep two instances from running the same job.
+class JobScheduler {
+  private handlers = new Map<string, JobHandler>();
+  private intervalId: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly POLL_INTERVAL_MS = 15 * 1000;
+  private readonly LEASE_MS = 5 * 60 * 1000; // A job still locked after this is presumed abandoned
+  private readonly BATCH_SIZE = 50;
+  private readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    log(`Starting job scheduler as worker ${this.workerId}`);
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        log(`Error polling scheduled jobs: ${error}`);
+      }
+    };
+
+    this.intervalId = setInterval(tick, this.POLL_INTERVAL_MS);
+    // Catch up on anything that came due while the server was down
+    tick();
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      log("Stopped job scheduler");
+    }
+  }
+
+  async poll() {
+    // Skip a tick rather than overlap if the previous batch is still running
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const jobs = await storage.claimDueJobs(this.workerId, this.LEASE_MS, this.BATCH_SIZE);
+      for (const job of jobs) {
+        await this.run(job);
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async run(job: ScheduledJob) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.failScheduledJob(job.id, this.workerId, `No handler registered for ${job.type}`, new Date(Date.now() + this.MAX_RETRY_DELAY_MS));
+      return;
+    }
+
+    try {
+      const nextRunAt = await handler(job);
+      await storage.completeScheduledJob(job.id, this.workerId, nextRunAt);
+    } catch (error) {
+      // Back off exponentially from a minute, capped at an hour
+      const retryDelay = Math.min(60 * 1000 * 2 ** job.attempts, this.MAX_RETRY_DELAY_MS);
+      log(`Job ${job.id} (${job.type}) failed, retrying in ${Math.round(retryDelay / 60000)} min: ${error}`);
+      await storage.failScheduledJob(job.id, this.workerId, String(error), new Date(Date.now() + retryDelay));
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
+
+// Graceful shutdown handling
+process.on('SIGTERM', () => {
+  jobScheduler.stop();
+});
+
+process.on('SIGINT', () => {
+  jobScheduler.stop();
+});
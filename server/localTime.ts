@@ -0,0 +1,81 @@
+export interface LocalTimeParts {
+  date: string; // YYYY-MM-DD in the given timezone
+  dayOfWeek: number; // 0 = Sunday
+  minuteOfDay: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Break an instant down into calendar fields as seen on a wall clock in the given IANA timezone
+export function getLocalTimeParts(at: Date, timeZone: string): LocalTimeParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const field = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    date: `${field('year')}-${field('month')}-${field('day')}`,
+    dayOfWeek: WEEKDAYS.indexOf(field('weekday')),
+    minuteOfDay: parseInt(field('hour')) * 60 + parseInt(field('minute')),
+  };
+}
+
+// Whether a local time falls inside a daily window; windows whose end is before their start wrap past midnight
+export function isWithinDailyWindow(minuteOfDay: number, startMinute: number | null, endMinute: number | null): boolean {
+  if (startMinute === null || endMinute === null) {
+    return true;
+  }
+  if (startMinute <= endMinute) {
+    return minuteOfDay >= startMinute && minuteOfDay < endMinute;
+  }
+  return minuteOfDay >= startMinute || minuteOfDay < endMinute;
+}
+
+// Render minutes after midnight as a 24-hour clock time, e.g. 510 -> "8:30"
+export function formatMinuteOfDay(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}`;
+}
+
+// How far the given IANA timezone's wall clock is ahead of UTC at an instant, in milliseconds
+function getTimeZoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const field = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value ?? '0');
+  const wallClockAsUtc = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wallClockAsUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// The instant a local calendar day starts, correcting a UTC guess by the offset in effect at that moment
+function getLocalMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day);
+  const firstPass = guess - getTimeZoneOffsetMs(new Date(guess), timeZone);
+  return new Date(guess - getTimeZoneOffsetMs(new Date(firstPass), timeZone));
+}
+
+// UTC instants bounding a local calendar day (YYYY-MM-DD) in the given IANA timezone, end exclusive
+export function getLocalDayBounds(date: string, timeZone: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number);
+  return {
+    start: getLocalMidnight(year, month, day, timeZone),
+    end: getLocalMidnight(year, month, day + 1, timeZone),
+  };
+}
@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+import { reverseGeocoder } from "./reverseGeocoder";
+import { realtimeEvents } from "./realtimeEvents";
+import type { Location } from "@shared/schema";
+
+// Fill in a saved fix's address after the upload has been answered, so a slow geocoder never holds up the
+// request. When the fix is still the user's live position, their family's maps get the address as well.
+export function fillAddressInBackground(location: Location) {
+  if (location.address) {
+    return;
+  }
+
+  (async () => {
+    const address = await reverseGeocoder.lookup(location.latitude, location.longitude);
+    if (!address) {
+      return;
+    }
+
+    const updated = await storage.updateLocationAddress(location.id, address);
+    const latest = await storage.getUserLatestLocation(location.userId);
+    if (updated && latest?.id === updated.id) {
+      realtimeEvents.publish('locationUpdate', { userId: updated.userId, location: updated });
+    }
+  })().catch(error => console.error(`Failed to fill in address for location ${location.id}:`, error));
+}
@@ -0,0 +1,101 @@
+import { storage, type NewLocation } from './storage';
+import { realtimeEvents } from './realtimeEvents';
+import { checkGeofenceTransitions } from './geofencing';
+import { fillAddressInBackground } from './locationAddress';
+import { updateTimeline } from './timeline';
+import { fixKey } from './locationImport';
+import { resolveCaptureTime } from './captureTime';
+import { assessFix, type FilterFix } from './locationFilter';
+import { isCapturedWhilePaused } from './sharingPause';
+import type { InsertLocation, LocationBatchResult } from '@shared/schema';
+
+export type BufferedFix = Omit<InsertLocation, 'userId'> & { timestamp: Date };
+
+// Save fixes a client buffered while offline. They keep their capture times, pass through the sanity
+// filter and then geofence evaluation oldest first, and only the newest is broadcast as the user's live
+// position. Fixes older than the user's latest stored fix only fill in history: replaying them would
+// rewind geofence state.
+export async function saveLocationBatch(userId: number, fixes: BufferedFix[]): Promise<LocationBatchResult> {
+  const receivedAt = new Date();
+  const accepted = fixes
+    .map(fix => ({ ...fix, timestamp: resolveCaptureTime(fix.timestamp, receivedAt) }))
+    .filter((fix): fix is BufferedFix => fix.timestamp !== null)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const result: LocationBatchResult = { saved: 0, duplicates: 0, rejected: fixes.length - accepted.length, suspect: 0, latest: null };
+  if (accepted.length === 0) {
+    return result;
+  }
+
+  // A retried upload shouldn't store the same points twice
+  const first = accepted[0].timestamp;
+  const last = accepted[accepted.length - 1].timestamp;
+  const [existing, previousLatest, previousAny, user, pauses] = await Promise.all([
+    storage.getUserLocationsSince(userId, new Date(Math.floor(first.getTime() / 1000) * 1000), new Date(last.getTime() + 1000)),
+    storage.getUserLatestLocation(userId),
+    storage.getUserLatestLocation(userId, true),
+    storage.getUser(userId),
+    storage.getSharingPauses(userId, first, last),
+  ]);
+  const seen = new Set(existing
+    .filter(location => location.timestamp)
+    .map(location => fixKey(location.latitude, location.longitude, location.timestamp!)));
+  const fresh = accepted.filter(fix => {
+    const key = fixKey(fix.latitude, fix.longitude, fix.timestamp);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  result.duplicates = accepted.length - fresh.length;
+
+  // Judge each fix against the ones before it, batch fixes included
+  let latestTrusted: FilterFix | undefined = previousLatest;
+  let latestFix: (FilterFix & { suspect: boolean }) | undefined = previousAny;
+  const rows: Array<NewLocation & { timestamp: Date }> = [];
+  for (const fix of fresh) {
+    const assessment = assessFix(fix, latestTrusted, latestFix);
+    if (assessment.verdict === 'reject') {
+      result.rejected++;
+      continue;
+    }
+    const suspect = assessment.verdict === 'suspect';
+    // A pause covers what was captured during it, even when the upload comes after it ended
+    const capturedWhilePaused = isCapturedWhilePaused(pauses, fix.timestamp);
+    rows.push({ ...fix, userId, suspect, suspectReason: suspect ? assessment.reason : null, capturedWhilePaused });
+    latestFix = { ...fix, suspect };
+    if (suspect) {
+      result.suspect++;
+    } else {
+      latestTrusted = fix;
+    }
+  }
+  if (rows.length === 0) {
+    return result;
+  }
+
+  const saved = await storage.saveLocationsWithTimestamps(rows);
+  result.saved = saved.length;
+
+  const previousTimestamp = previousLatest?.timestamp?.getTime() ?? -Infinity;
+  const live = saved
+    .filter(location => !location.suspect && location.timestamp && location.timestamp.getTime() > previousTimestamp)
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime() || a.id - b.id);
+
+  for (const location of live) {
+    await checkGeofenceTransitions(userId, location);
+  }
+
+  if (user?.locationHistoryEnabled) {
+    await updateTimeline(userId, first);
+  }
+
+  if (live.length > 0) {
+    result.latest = live[live.length - 1];
+    realtimeEvents.publish('locationUpdate', { userId, location: result.latest });
+    // Only the live fix is shown with its address, so only it is worth a reverse geocoding lookup
+    fillAddressInBackground(result.latest);
+  }
+
+  return result;
+}
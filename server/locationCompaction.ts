@@ -0,0 +1,174 @@
+import { storage, type LocationCompaction } from "./storage";
+import { log } from "./vite";
+import { partitionFixes } from "./timeline";
+import type { Location } from "@shared/schema";
+
+type TrackPoint = Pick<Location, 'latitude' | 'longitude'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Track points closer than this to the simplified line are dropped
+const SIMPLIFY_TOLERANCE_METERS = 25;
+
+// Distance in meters from a point to the segment between two others, using a local flat projection
+function distanceToSegment(point: TrackPoint, start: TrackPoint, end: TrackPoint): number {
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLon = 111320 * Math.cos(point.latitude * Math.PI / 180);
+  const project = (p: TrackPoint) => [
+    (p.longitude - point.longitude) * metersPerDegreeLon,
+    (p.latitude - point.latitude) * metersPerDegreeLat,
+  ];
+
+  const [ax, ay] = project(start);
+  const [bx, by] = project(end);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Douglas–Peucker line simplification; always keeps the first and last points
+export function simplifyTrack<T extends TrackPoint>(points: T[], toleranceMeters = SIMPLIFY_TOLERANCE_METERS): T[] {
+  if (points.length <= 2) {
+    return points.slice();
+  }
+
+  const keep = points.map((_, index) => index === 0 || index === points.length - 1);
+  const pending: Array<[number, number]> = [[0, points.length - 1]];
+  while (pending.length > 0) {
+    const [first, last] = pending.pop()!;
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1 && farthestDistance > toleranceMeters) {
+      keep[farthest] = true;
+      pending.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+// Work out how to compact one user's raw fixes: each stay collapses to its centroid at the stay's start
+// and end times, and each trip keeps only its simplified track. The caller leaves geofence-trigger
+// fixes out, so they survive untouched.
+export function planCompaction(fixes: Location[]): LocationCompaction {
+  const plan: LocationCompaction = { deleteIds: [], compactedIds: [], inserts: [] };
+
+  for (const run of partitionFixes(fixes)) {
+    if (run.kind === 'stay' && run.fixes.length > 2) {
+      const first = run.fixes[0];
+      const last = run.fixes[run.fixes.length - 1];
+      const accuracies = run.fixes.map(fix => fix.accuracy).filter((accuracy): accuracy is number => accuracy !== null);
+      const centroid = {
+        userId: first.userId,
+        latitude: run.latitude,
+        longitude: run.longitude,
+        accuracy: accuracies.length > 0 ? accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length : null,
+        address: run.fixes.find(fix => fix.address)?.address ?? null,
+        type: 'compacted',
+        capturedWhilePaused: first.capturedWhilePaused,
+      };
+      plan.deleteIds.push(...run.fixes.map(fix => fix.id));
+      plan.inserts.push({ ...centroid, timestamp: first.timestamp! }, { ...centroid, timestamp: last.timestamp! });
+      continue;
+    }
+
+    const kept = simplifyTrack(run.fixes);
+    const keptIds = new Set(kept.map(fix => fix.id));
+    plan.compactedIds.push(...kept.map(fix => fix.id));
+    plan.deleteIds.push(...run.fixes.filter(fix => !keptIds.has(fix.id)).map(fix => fix.id));
+  }
+
+  return plan;
+}
+
+class LocationCompactionJob {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isCompacting = false;
+  private readonly COMPACTION_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+  private readonly MAX_DAYS_PER_PASS = 200; // User-days per pass, so a large backlog is worked off gradually
+  private readonly compactAfterDays = parseInt(process.env.LOCATION_COMPACTION_AFTER_DAYS || "30");
+
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    log(`Starting compaction of location history older than ${this.compactAfterDays} days`);
+
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.compact();
+      } catch (error) {
+        log(`Error compacting location history: ${error}`);
+      }
+    }, this.COMPACTION_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      log("Stopped location history compaction");
+    }
+  }
+
+  async compact(now = new Date()) {
+    // Skip a tick rather than overlap if the previous pass is still running
+    if (this.isCompacting) {
+      return;
+    }
+
+    this.isCompacting = true;
+    try {
+      const cutoff = new Date(now.getTime() - this.compactAfterDays * DAY_MS);
+      const candidates = await storage.getCompactionCandidates(cutoff, this.MAX_DAYS_PER_PASS);
+
+      let removed = 0;
+      for (const { userId, day } of candidates) {
+        try {
+          const dayEnd = new Date(Math.min(day.getTime() + DAY_MS, cutoff.getTime()));
+          const fixes = (await storage.getUserLocationsSince(userId, day, dayEnd))
+            .filter(fix => fix.type !== 'compacted' && !fix.geofenceTriggered);
+          // Suspect fixes were never part of the user's real track, so compaction drops them. Fixes from a
+          // sharing pause are compacted on their own, so no stay centroid mixes private and shared fixes.
+          const trusted = fixes.filter(fix => !fix.suspect);
+          const plan = planCompaction(trusted.filter(fix => !fix.capturedWhilePaused));
+          const pausedPlan = planCompaction(trusted.filter(fix => fix.capturedWhilePaused));
+          plan.deleteIds.push(...pausedPlan.deleteIds, ...fixes.filter(fix => fix.suspect).map(fix => fix.id));
+          plan.compactedIds.push(...pausedPlan.compactedIds);
+          plan.inserts.push(...pausedPlan.inserts);
+          await storage.compactLocations(plan);
+          removed += plan.deleteIds.length - plan.inserts.length;
+        } catch (error) {
+          log(`Failed to compact locations for user ${userId} on ${day.toISOString().slice(0, 10)}: ${error}`);
+        }
+      }
+
+      if (candidates.length > 0) {
+        log(`Compacted ${candidates.length} user-days of location history, ${removed} fewer rows`);
+      }
+    } finally {
+      this.isCompacting = false;
+    }
+  }
+}
+
+export const locationCompactionJob = new LocationCompactionJob();
+
+// Graceful shutdown handling
+process.on('SIGTERM', () => {
+  locationCompactionJob.stop();
+});
+
+process.on('SIGINT', () => {
+  locationCompactionJob.stop();
+});
@@ -0,0 +1,124 @@
+import type { Location } from '@shared/schema';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+type ExportFix = Pick<Location, 'latitude' | 'longitude' | 'accuracy' | 'address' | 'type' | 'timestamp'>;
+
+export interface LocationExport {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// GPX 1.1: one track with a single segment, one trkpt per fix
+function toGpx(name: string, fixes: ExportFix[]): string {
+  const points = fixes.map(fix => [
+    `      <trkpt lat="${fix.latitude}" lon="${fix.longitude}">`,
+    fix.timestamp ? `        <time>${fix.timestamp.toISOString()}</time>` : null,
+    fix.address ? `        <desc>${escapeXml(fix.address)}</desc>` : null,
+    `      </trkpt>`,
+  ].filter(line => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="FamilyLocator" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// KML 2.2: the path as a LineString plus a timestamped placemark per fix
+function toKml(name: string, fixes: ExportFix[]): string {
+  const placemarks = fixes.map(fix => [
+    '      <Placemark>',
+    fix.timestamp ? `        <TimeStamp><when>${fix.timestamp.toISOString()}</when></TimeStamp>` : null,
+    fix.address ? `        <description>${escapeXml(fix.address)}</description>` : null,
+    `        <Point><coordinates>${fix.longitude},${fix.latitude}</coordinates></Point>`,
+    '      </Placemark>',
+  ].filter(line => line !== null).join('\n'));
+
+  const path = fixes.length >= 2
+    ? [
+        '    <Placemark>',
+        `      <name>${escapeXml(name)}</name>`,
+        '      <LineString>',
+        '        <tessellate>1</tessellate>',
+        `        <coordinates>${fixes.map(fix => `${fix.longitude},${fix.latitude}`).join(' ')}</coordinates>`,
+        '      </LineString>',
+        '    </Placemark>',
+      ]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...path,
+    '    <Folder>',
+    '      <name>Locations</name>',
+    ...placemarks,
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// GeoJSON (RFC 7946): a Point feature per fix, plus a LineString track whose coordTimes line up with its coordinates
+function toGeoJson(name: string, fixes: ExportFix[]): string {
+  const points = fixes.map(fix => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [fix.longitude, fix.latitude] },
+    properties: {
+      timestamp: fix.timestamp?.toISOString() ?? null,
+      accuracy: fix.accuracy,
+      address: fix.address,
+      type: fix.type,
+    },
+  }));
+
+  const track = fixes.length >= 2
+    ? [{
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: fixes.map(fix => [fix.longitude, fix.latitude]) },
+        properties: {
+          name,
+          coordTimes: fixes.map(fix => fix.timestamp?.toISOString() ?? null),
+        },
+      }]
+    : [];
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [...track, ...points] }, null, 2);
+}
+
+// Render fixes (oldest first) in the requested format under a human-readable track name
+export function exportLocations(format: ExportFormat, name: string, fixes: ExportFix[]): LocationExport {
+  switch (format) {
+    case 'gpx':
+      return { contentType: 'application/gpx+xml', extension: 'gpx', body: toGpx(name, fixes) };
+    case 'kml':
+      return { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml', body: toKml(name, fixes) };
+    case 'geojson':
+      return { contentType: 'application/geo+json', extension: 'geojson', body: toGeoJson(name, fixes) };
+  }
+}
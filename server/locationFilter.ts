@@ -0,0 +1,59 @@
+import { calculateDistance } from './geofencing';
+import type { Location } from '@shared/schema';
+
+export type FilterFix = Pick<Location, 'latitude' | 'longitude'> & { accuracy?: number | null; timestamp?: Date | null };
+
+// Why a fix was stored as suspect, or refused outright
+export type SuspectReason = 'implied_speed' | 'poor_accuracy';
+export type RejectReason = 'invalid_coordinates' | 'null_island';
+
+export type FixAssessment =
+  | { verdict: 'accept' }
+  | { verdict: 'suspect'; reason: SuspectReason }
+  | { verdict: 'reject'; reason: RejectReason };
+
+// Faster than this between trusted fixes (after allowing for both fixes' accuracy) is a teleport, not travel.
+// Flights exceed it too, but the first fixes after landing agree with each other and confirm the jump.
+const MAX_PLAUSIBLE_SPEED = 85; // meters per second, ~300 km/h
+// Coarser than this (cell-tower fixes from far away) can't place someone at a specific place
+const MAX_ACCURACY_METERS = 1000;
+// Fixes this close to 0,0 are a failed lookup reported as coordinates, not a position in the Gulf of Guinea
+const NULL_ISLAND_DEGREES = 0.001;
+
+function impliedSpeed(from: FilterFix, to: FilterFix): number {
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  const slack = (from.accuracy ?? 0) + (to.accuracy ?? 0);
+  const elapsedSeconds = Math.abs((to.timestamp?.getTime() ?? 0) - (from.timestamp?.getTime() ?? 0)) / 1000;
+  return Math.max(0, distance - slack) / Math.max(elapsedSeconds, 1);
+}
+
+export function isNullIsland(latitude: number, longitude: number): boolean {
+  return Math.abs(latitude) < NULL_ISLAND_DEGREES && Math.abs(longitude) < NULL_ISLAND_DEGREES;
+}
+
+// Judge a new fix against the user's latest trusted fix. `latestFix` is their latest fix of any kind: when
+// it is itself a suspect jump that this fix agrees with, the user really did move and the fix is accepted.
+export function assessFix(fix: FilterFix, latestTrusted?: FilterFix, latestFix?: FilterFix & { suspect: boolean }): FixAssessment {
+  const { latitude, longitude } = fix;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return { verdict: 'reject', reason: 'invalid_coordinates' };
+  }
+  if (isNullIsland(latitude, longitude)) {
+    return { verdict: 'reject', reason: 'null_island' };
+  }
+
+  if (fix.accuracy != null && fix.accuracy > MAX_ACCURACY_METERS) {
+    return { verdict: 'suspect', reason: 'poor_accuracy' };
+  }
+
+  if (latestTrusted?.timestamp && fix.timestamp && impliedSpeed(latestTrusted, fix) > MAX_PLAUSIBLE_SPEED) {
+    const confirmsJump = !!latestFix?.suspect && !!latestFix.timestamp &&
+      (latestFix.accuracy ?? 0) <= MAX_ACCURACY_METERS &&
+      impliedSpeed(latestFix, fix) <= MAX_PLAUSIBLE_SPEED;
+    if (!confirmsJump) {
+      return { verdict: 'suspect', reason: 'implied_speed' };
+    }
+  }
+
+  return { verdict: 'accept' };
+}
@@ -0,0 +1,290 @@
+import { pipeline, type Readable } from 'stream';
+import StreamJson from 'stream-json';
+import Pick from 'stream-json/filters/Pick.js';
+import StreamValues from 'stream-json/streamers/StreamValues.js';
+import { storage } from './storage';
+import { realtimeEvents, type ImportProgressEvent } from './realtimeEvents';
+import { updateTimeline } from './timeline';
+import { isNullIsland } from './locationFilter';
+import { isCapturedWhilePaused } from './sharingPause';
+
+export type ImportFormat = 'gpx' | 'geojson' | 'takeout';
+
+export interface ImportedFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  timestamp: Date;
+}
+
+export class LocationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocationImportError";
+    Object.setPrototypeOf(this, LocationImportError.prototype);
+  }
+}
+
+const IMPORT_BATCH_SIZE = 1000;
+
+// Fixes without a usable position or capture time can't be placed in history, so they're dropped
+function toFix(latitude: unknown, longitude: unknown, time: unknown, accuracy?: unknown): ImportedFix | null {
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  const timestamp = typeof time === 'number' || typeof time === 'string' ? new Date(time) : null;
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90 || !Number.isFinite(lon) || lon < -180 || lon > 180 || isNullIsland(lat, lon)) {
+    return null;
+  }
+  if (!timestamp || isNaN(timestamp.getTime()) || timestamp.getTime() > Date.now()) {
+    return null;
+  }
+  const acc = Number(accuracy);
+  return { latitude: lat, longitude: lon, accuracy: accuracy != null && Number.isFinite(acc) ? acc : null, timestamp };
+}
+
+// Bytes read from the start of a file to tell its format before streaming the rest
+export const FORMAT_SNIFF_BYTES = 64 * 1024;
+
+// How to read a file, decided from its first FORMAT_SNIFF_BYTES
+export interface LocationFileFormat {
+  format: ImportFormat;
+  singleFeature: boolean; // GeoJSON holding one Feature rather than a FeatureCollection
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// GPX 1.0/1.1: track, route and waypoints that carry a <time>. The file is scanned chunk by chunk,
+// carrying over only the unfinished point at the end of each chunk.
+async function* readGpxFixes(stream: Readable): AsyncGenerator<ImportedFix> {
+  const pointPattern = /<(trkpt|rtept|wpt)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  let buffer = '';
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) {
+    buffer += chunk;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    pointPattern.lastIndex = 0;
+    while ((match = pointPattern.exec(buffer)) !== null) {
+      const [, , attributes, body] = match;
+      const lat = /\blat\s*=\s*["']([^"']+)["']/.exec(attributes)?.[1];
+      const lon = /\blon\s*=\s*["']([^"']+)["']/.exec(attributes)?.[1];
+      const time = /<time>\s*([^<]+?)\s*<\/time>/.exec(body)?.[1];
+      const fix = toFix(lat, lon, time);
+      if (fix) {
+        yield fix;
+      }
+      consumed = pointPattern.lastIndex;
+    }
+    // Keep from the last point still being read, or a short tail in case a tag name was cut in two
+    const rest = buffer.slice(consumed);
+    const open = Math.max(rest.lastIndexOf('<trkpt'), rest.lastIndexOf('<rtept'), rest.lastIndexOf('<wpt'));
+    buffer = open >= 0 ? rest.slice(open) : rest.slice(-8);
+  }
+}
+
+// GeoJSON: Point features with a timestamp/time property, and LineString, MultiPoint or MultiLineString
+// features with per-coordinate "coordTimes" (the convention used by togeojson and our own export)
+function geoJsonFeatureFixes(feature: unknown): ImportedFix[] {
+  if (!isObject(feature) || feature.type !== 'Feature' || !isObject(feature.geometry)) {
+    return [];
+  }
+
+  const fixes: ImportedFix[] = [];
+  const addLine = (coordinates: unknown[], times: unknown[]) => {
+    coordinates.forEach((coordinate, index) => {
+      const fix = Array.isArray(coordinate) ? toFix(coordinate[1], coordinate[0], times[index]) : null;
+      if (fix) {
+        fixes.push(fix);
+      }
+    });
+  };
+
+  const { type, coordinates } = feature.geometry;
+  const properties = isObject(feature.properties) ? feature.properties : {};
+  const coordTimes = asArray(properties.coordTimes);
+  if (type === 'Point' && Array.isArray(coordinates)) {
+    const fix = toFix(coordinates[1], coordinates[0], properties.timestamp ?? properties.time, properties.accuracy);
+    if (fix) {
+      fixes.push(fix);
+    }
+  } else if ((type === 'LineString' || type === 'MultiPoint') && Array.isArray(coordinates)) {
+    addLine(coordinates, coordTimes);
+  } else if (type === 'MultiLineString' && Array.isArray(coordinates)) {
+    coordinates.forEach((line, index) => addLine(asArray(line), asArray(coordTimes[index])));
+  }
+  return fixes;
+}
+
+// Google Takeout "Records.json": { locations: [{ latitudeE7, longitudeE7, accuracy, timestamp | timestampMs }] }
+function takeoutRecordFix(record: unknown): ImportedFix | null {
+  if (!isObject(record)) {
+    return null;
+  }
+  // Older exports wrote some coordinates as overflowed unsigned 32-bit integers
+  const fromE7 = (value: unknown, limit: number) => {
+    const raw = Number(value);
+    return (raw > limit * 1e7 ? raw - 4294967296 : raw) / 1e7;
+  };
+  const time = record.timestamp ?? (record.timestampMs !== undefined ? Number(record.timestampMs) : undefined);
+  return toFix(fromE7(record.latitudeE7, 90), fromE7(record.longitudeE7, 180), time, record.accuracy);
+}
+
+// JSON formats are streamed one array element at a time (each Takeout record or GeoJSON feature), so only
+// the element being read is ever held in memory. A lone Feature is the one case read as a whole.
+async function* readJsonFixes(stream: Readable, { format, singleFeature }: LocationFileFormat): AsyncGenerator<ImportedFix> {
+  const elementPath = format === 'takeout' ? /^locations\.\d+$/ : /^features\.\d+$/;
+  let sourceFailed = false;
+  stream.once('error', () => {
+    sourceFailed = true;
+  });
+  const values = pipeline(
+    stream,
+    StreamJson.parser(),
+    Pick.pick({ filter: stack => singleFeature ? stack.length === 0 : elementPath.test(stack.join('.')) }),
+    StreamValues.streamValues(),
+    () => {}, // Errors surface through the iteration below
+  );
+
+  try {
+    for await (const { value } of values as AsyncIterable<{ value: unknown }>) {
+      if (format === 'takeout') {
+        const fix = takeoutRecordFix(value);
+        if (fix) {
+          yield fix;
+        }
+      } else {
+        yield* geoJsonFeatureFixes(value);
+      }
+    }
+  } catch (error) {
+    throw sourceFailed ? error : new LocationImportError("File is not valid JSON");
+  }
+}
+
+// Tell an uploaded file's format from its first bytes. An explicit format wins over sniffing.
+export function detectLocationFileFormat(head: string, format?: ImportFormat): LocationFileFormat {
+  const start = head.replace(/^\uFEFF/, '').trimStart();
+  const isGeoJsonCollection = /"type"\s*:\s*"FeatureCollection"/.test(start) || /"features"\s*:\s*\[/.test(start);
+  if (format === 'gpx' || (!format && start.startsWith('<'))) {
+    return { format: 'gpx', singleFeature: false };
+  }
+  if (!start.startsWith('{')) {
+    throw new LocationImportError("File is not valid JSON");
+  }
+  if (format === 'takeout' || (!format && /"locations"\s*:\s*\[/.test(start))) {
+    return { format: 'takeout', singleFeature: false };
+  }
+  if (format === 'geojson' || isGeoJsonCollection || /"type"\s*:\s*"Feature"/.test(start)) {
+    return { format: 'geojson', singleFeature: !isGeoJsonCollection };
+  }
+  throw new LocationImportError("Unrecognized file format; expected GPX, GeoJSON or Google Takeout Records.json");
+}
+
+// Read an uploaded history file as batches of fixes, in file order, without holding the whole file
+export async function* readLocationFile(stream: Readable, format: LocationFileFormat): AsyncGenerator<ImportedFix[]> {
+  const fixes = format.format === 'gpx' ? readGpxFixes(stream) : readJsonFixes(stream, format);
+  let batch: ImportedFix[] = [];
+  for await (const fix of fixes) {
+    batch.push(fix);
+    if (batch.length === IMPORT_BATCH_SIZE) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+// Two fixes are the same point when they share a capture second and a ~10m grid cell
+export function fixKey(latitude: number, longitude: number, timestamp: Date): string {
+  return `${Math.floor(timestamp.getTime() / 1000)}:${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+}
+
+// Insert fixes as "imported" locations batch by batch as they are read, skipping points already in the
+// user's history (earlier batches included), and report progress to the user over the realtime channel
+export async function importLocations(userId: number, importId: string, batches: AsyncIterable<ImportedFix[]>) {
+  const progress: ImportProgressEvent = {
+    userId,
+    importId,
+    status: 'running',
+    total: null,
+    processed: 0,
+    imported: 0,
+    duplicates: 0,
+  };
+  let oldestImported: Date | undefined;
+
+  try {
+    realtimeEvents.publish('importProgress', { ...progress });
+
+    for await (const fixes of batches) {
+      const batch = [...fixes].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      const batchStart = new Date(Math.floor(batch[0].timestamp.getTime() / 1000) * 1000);
+      const batchEnd = new Date(batch[batch.length - 1].timestamp.getTime() + 1000);
+
+      const [existing, pauses] = await Promise.all([
+        storage.getUserLocationsSince(userId, batchStart, batchEnd),
+        storage.getSharingPauses(userId, batchStart, batchEnd),
+      ]);
+      const seen = new Set(existing
+        .filter(location => location.timestamp)
+        .map(location => fixKey(location.latitude, location.longitude, location.timestamp!)));
+
+      const fresh = batch.filter(fix => {
+        const key = fixKey(fix.latitude, fix.longitude, fix.timestamp);
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+      const saved = await storage.saveLocationsWithTimestamps(fresh.map(fix => ({
+        userId,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        accuracy: fix.accuracy,
+        source: 'imported',
+        type: 'imported',
+        capturedWhilePaused: isCapturedWhilePaused(pauses, fix.timestamp),
+        timestamp: fix.timestamp,
+      })));
+      if (saved.length > 0 && (!oldestImported || fresh[0].timestamp < oldestImported)) {
+        oldestImported = fresh[0].timestamp;
+      }
+      progress.imported += saved.length;
+      progress.duplicates += batch.length - fresh.length;
+      progress.processed += batch.length;
+      realtimeEvents.publish('importProgress', { ...progress });
+    }
+
+    if (progress.processed === 0) {
+      throw new LocationImportError("No timestamped locations found in file");
+    }
+    progress.total = progress.processed;
+    console.log(`Import ${importId} for user ${userId}: ${progress.imported} imported, ${progress.duplicates} duplicates`);
+
+    // Imported history lands in the past, so re-segment the timeline from the oldest new point
+    if (oldestImported) {
+      await updateTimeline(userId, oldestImported);
+    }
+
+    realtimeEvents.publish('importProgress', { ...progress, status: 'completed' });
+  } catch (error) {
+    if (error instanceof LocationImportError) {
+      realtimeEvents.publish('importProgress', { ...progress, status: 'failed', message: error.message });
+      return;
+    }
+    console.error(`Error importing locations for user ${userId}:`, error);
+    realtimeEvents.publish('importProgress', { ...progress, status: 'failed', message: 'Import failed' });
+  }
+}
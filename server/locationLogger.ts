@@ -1,113 +1,118 @@
-import { storage } from "./storage";
+import { storage, LOGGED_LOCATION_TYPE } from "./storage";
 import { log } from "./vite";
+import { reverseGeocoder } from "./reverseGeocoder";
+import { jobScheduler } from "./jobScheduler";
+import { isSharingPaused } from "./sharingPause";
+import type { ScheduledJob, User } from "@shared/schema";
 
-interface UserLocationSession {
-  userId: string;
-  lastLogTime: Date;
-  intervalId: NodeJS.Timeout;
+export const LOCATION_LOG_JOB = "location_log";
+
+const MINUTE_IN_MS = 60 * 1000;
+const MIN_RECENT_WINDOW_MS = 2 * 60 * MINUTE_IN_MS; // Latest fix must be at least this fresh to be re-logged
+
+// Logging needs history kept and the user not to have stopped it; stopping is stored on the user, so it
+// survives restarts
+function wantsLogging(user: User): boolean {
+  return !!user.locationHistoryEnabled && user.autoLoggingEnabled;
 }
 
+// Automatic location logging: a durable "location_log" job per user with history and auto-logging enabled,
+// re-run every locationLogIntervalMinutes whether or not the user has the app open
 class LocationLogger {
-  private activeSessions = new Map<string, UserLocationSession>();
-  private readonly HOUR_IN_MS = 60 * 60 * 1000; // 1 hour
-
-  startHourlyLogging(userId: string) {
-    // Don't start if already active
-    if (this.activeSessions.has(userId)) {
+  // Start a user's logging, first run one interval from now. An existing schedule is kept unless
+  // `reschedule` is set (e.g. after the interval changed).
+  async enable(userId: number, reschedule = false) {
+    const user = await storage.getUser(userId);
+    if (!user || !wantsLogging(user)) {
+      return;
+    }
+    if (!reschedule && await storage.getScheduledJob(LOCATION_LOG_JOB, userId)) {
       return;
     }
 
-    log(`Starting hourly location logging for user ${userId}`);
-
-    const intervalId = setInterval(async () => {
-      try {
-        await this.logUserLocation(userId);
-      } catch (error) {
-        log(`Error logging location for user ${userId}: ${error}`);
-      }
-    }, this.HOUR_IN_MS);
+    const job = await storage.scheduleJob(LOCATION_LOG_JOB, userId, this.nextRunAt(user));
+    log(`Scheduled automatic location logging for user ${userId} every ${user.locationLogIntervalMinutes} min, next at ${job.runAt.toISOString()}`);
+  }
 
-    this.activeSessions.set(userId, {
-      userId,
-      lastLogTime: new Date(),
-      intervalId,
-    });
+  async disable(userId: number) {
+    await storage.deleteScheduledJob(LOCATION_LOG_JOB, userId);
+    log(`Stopped automatic location logging for user ${userId}`);
   }
 
-  stopHourlyLogging(userId: string) {
-    const session = this.activeSessions.get(userId);
-    if (session) {
-      clearInterval(session.intervalId);
-      this.activeSessions.delete(userId);
-      log(`Stopped hourly location logging for user ${userId}`);
+  // Give every user who wants logging but has no job one, e.g. accounts created before jobs were durable
+  async scheduleMissingJobs() {
+    const users = await storage.getUsersWithoutScheduledJob(LOCATION_LOG_JOB);
+    const eligible = users.filter(wantsLogging);
+    for (const user of eligible) {
+      await storage.scheduleJob(LOCATION_LOG_JOB, user.id, this.nextRunAt(user));
     }
+    if (eligible.length > 0) {
+      log(`Scheduled automatic location logging for ${eligible.length} users`);
+    }
+  }
+
+  async getStatus(userId: number) {
+    const [user, job] = await Promise.all([
+      storage.getUser(userId),
+      storage.getScheduledJob(LOCATION_LOG_JOB, userId),
+    ]);
+
+    return {
+      enabled: !!job,
+      intervalMinutes: user?.locationLogIntervalMinutes ?? null,
+      lastRunAt: job?.lastRunAt ?? null,
+      nextRunAt: job?.runAt ?? null,
+      lastError: job?.lastError ?? null,
+    };
   }
 
-  private async logUserLocation(userId: string) {
-    try {
-      // Get user's current settings
-      const user = await storage.getUser(userId);
-      if (!user || !user.locationHistoryEnabled) {
-        log(`Skipping automatic location log for user ${userId} - history disabled`);
-        return;
-      }
-
-      // Get the user's latest location
-      const latestLocation = await storage.getUserLatestLocation(userId);
-      if (!latestLocation) {
-        log(`No location data available for user ${userId}`);
-        return;
-      }
-
-      // Check if the latest location is recent (within the last 2 hours)
-      const twoHoursAgo = new Date(Date.now() - 2 * this.HOUR_IN_MS);
-      if (latestLocation.timestamp < twoHoursAgo) {
-        log(`Latest location for user ${userId} is too old, skipping automatic log`);
-        return;
-      }
-
-      // Create an automatic hourly log entry
-      await storage.saveLocation({
-        userId,
-        latitude: latestLocation.latitude,
-        longitude: latestLocation.longitude,
-        accuracy: latestLocation.accuracy,
-        address: latestLocation.address,
-        type: "automatic_hourly",
-      });
-
-      log(`Automatic hourly location logged for user ${userId}`);
-    } catch (error) {
-      log(`Failed to log automatic location for user ${userId}: ${error}`);
+  // Job handler: log the user's location, then schedule the next run (or drop the job if logging is off)
+  async run(job: ScheduledJob): Promise<Date | null> {
+    const user = job.userId !== null ? await storage.getUser(job.userId) : undefined;
+    if (!user || !wantsLogging(user)) {
+      log(`Dropping automatic location logging job for user ${job.userId} - logging disabled`);
+      return null;
     }
+
+    await this.logUserLocation(user);
+    return this.nextRunAt(user);
   }
 
-  // Get all active logging sessions (for debugging)
-  getActiveSessions() {
-    return Array.from(this.activeSessions.values()).map(session => ({
-      userId: session.userId,
-      lastLogTime: session.lastLogTime,
-      nextLogTime: new Date(session.lastLogTime.getTime() + this.HOUR_IN_MS),
-    }));
+  private nextRunAt(user: User): Date {
+    return new Date(Date.now() + user.locationLogIntervalMinutes * MINUTE_IN_MS);
   }
 
-  // Cleanup all sessions (for server shutdown)
-  cleanup() {
-    for (const session of this.activeSessions.values()) {
-      clearInterval(session.intervalId);
+  private async logUserLocation(user: User) {
+    // The latest fix the device itself reported; earlier logged copies don't count, or a phone that went
+    // quiet would keep being re-logged as if it were still reporting
+    const latestLocation = await storage.getUserLatestLocation(user.id);
+    if (!latestLocation) {
+      log(`No location data available for user ${user.id}`);
+      return;
+    }
+
+    // Only re-log a fix that is still recent (two intervals, and never less than two hours)
+    const recentWindowMs = Math.max(MIN_RECENT_WINDOW_MS, 2 * user.locationLogIntervalMinutes * MINUTE_IN_MS);
+    if (!latestLocation.timestamp || latestLocation.timestamp.getTime() < Date.now() - recentWindowMs) {
+      log(`Latest location for user ${user.id} is too old, skipping automatic log`);
+      return;
     }
-    this.activeSessions.clear();
-    log("Location logger cleanup completed");
+
+    // Create an automatic log entry
+    await storage.saveLocation({
+      userId: user.id,
+      latitude: latestLocation.latitude,
+      longitude: latestLocation.longitude,
+      accuracy: latestLocation.accuracy,
+      address: latestLocation.address ?? await reverseGeocoder.lookup(latestLocation.latitude, latestLocation.longitude),
+      type: LOGGED_LOCATION_TYPE,
+      capturedWhilePaused: isSharingPaused(user),
+    });
+
+    log(`Automatic location logged for user ${user.id}`);
   }
 }
 
 export const locationLogger = new LocationLogger();
 
-// Graceful shutdown handling
-process.on('SIGTERM', () => {
-  locationLogger.cleanup();
-});
-
-process.on('SIGINT', () => {
-  locationLogger.cleanup();
-});
\ No newline at end of file
+jobScheduler.register(LOCATION_LOG_JOB, (job) => locationLogger.run(job));
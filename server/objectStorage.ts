@@ -221,6 +221,22 @@ export class ObjectStorageService {
     return normalizedPath;
   }
 
+  // Gets a freshly uploaded object entity for its uploader, making them its private owner. Objects that
+  // already belong to someone else are reported as not found.
+  async claimObjectEntity(rawPath: string, userId: string): Promise<File> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    const aclPolicy = await getObjectAclPolicy(objectFile);
+    if (aclPolicy) {
+      if (aclPolicy.owner !== userId) {
+        throw new ObjectNotFoundError();
+      }
+      return objectFile;
+    }
+    await setObjectAclPolicy(objectFile, { owner: userId, visibility: "private" });
+    return objectFile;
+  }
+
   // Checks if the user can access the object entity.
   async canAccessObjectEntity({
     userId,
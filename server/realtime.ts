@@ -0,0 +1,179 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { realtimeEvents } from "./realtimeEvents";
+import { ConnectionRegistry } from "./connectionRegistry";
+import { EventReplayBuffer } from "./eventReplayBuffer";
+import { createRealtimeBroker, type RealtimeBroker } from "./realtimeBroker";
+import { isSharingLocation } from "./sharingPause";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000; // Sockets that miss a whole interval without a pong are reaped
+
+// Reject an upgrade before any WebSocket handshake happens
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Live updates over /ws. Connections are authenticated from the same session cookie as the REST API, and
+// every event is delivered on its source user's family channel: the source user plus everyone holding an
+// accepted family connection to them, and nobody else. Each event carries a sequence number; a client
+// reconnecting with /ws?lastSeq=N first receives every event after N that it missed, or a "resync" message
+// when they are no longer buffered. Delivery goes through a RealtimeBroker, so with the Postgres broker
+// events published on one instance reach sockets held by any instance.
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler, broker: RealtimeBroker = createRealtimeBroker()) {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new ConnectionRegistry();
+  const replayBuffer = new EventReplayBuffer();
+  const answeredLastPing = new WeakSet<WebSocket>();
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other upgrade listeners (e.g. Vite HMR in development) own every other path
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') {
+      return;
+    }
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user) {
+          console.log('Rejected unauthenticated WebSocket connection');
+          return rejectUpgrade(socket, '401 Unauthorized');
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          wss.emit('connection', ws, req, user);
+        });
+      } catch (error) {
+        console.error('Error authenticating WebSocket connection:', error);
+        rejectUpgrade(socket, '500 Internal Server Error');
+      }
+    });
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, user: User) => {
+    answeredLastPing.add(ws);
+    ws.on('pong', () => answeredLastPing.add(ws));
+
+    // Replay before registering the socket so missed and live events can't interleave
+    const lastSeq = Number(new URL(req.url || '/', 'http://localhost').searchParams.get('lastSeq'));
+    if (lastSeq > 0) {
+      const replay = replayBuffer.replay(user.id, lastSeq);
+      if (replay.complete) {
+        replay.events.forEach(event => ws.send(JSON.stringify(event)));
+        console.log(`Replayed ${replay.events.length} missed events to user ${user.id} after seq ${lastSeq}`);
+      } else {
+        ws.send(JSON.stringify({ type: 'resync', seq: replayBuffer.currentSeq }));
+      }
+    }
+    ws.send(JSON.stringify({ type: 'connected', seq: replayBuffer.currentSeq }));
+
+    connections.add(user.id, ws);
+    console.log(`User ${user.id} connected for WebSocket updates (${connections.connectionCount(user.id)} devices). Users online: ${connections.userCount}`);
+
+    ws.on('close', () => {
+      connections.remove(user.id, ws);
+      console.log(`User ${user.id} closed a WebSocket (${connections.connectionCount(user.id)} devices left). Users online: ${connections.userCount}`);
+    });
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+  });
+
+  // Ping every socket; terminate the ones that never answered the previous ping (e.g. lost in a tunnel)
+  const heartbeat = setInterval(() => {
+    connections.forEachSocket((ws, userId) => {
+      if (!answeredLastPing.has(ws)) {
+        console.log(`Reaping unresponsive WebSocket for user ${userId}`);
+        ws.terminate();
+        return;
+      }
+      answeredLastPing.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  // Events go through the broker so every instance delivers them to the sockets it holds
+  broker.subscribe(({ seq, recipientIds, message }) => {
+    connections.send(recipientIds, replayBuffer.record(seq, recipientIds, message));
+  }).catch(error => {
+    console.error('Failed to subscribe to realtime broker:', error);
+  });
+
+  wss.on('close', () => {
+    broker.close().catch(error => console.error('Error closing realtime broker:', error));
+  });
+
+  // Resolve a user's family channel: themselves plus everyone with an accepted connection to them
+  async function getFamilyChannel(sourceUserId: number): Promise<Set<number>> {
+    const viewerIds = await storage.getFamilyViewerIds(sourceUserId);
+    return new Set([sourceUserId, ...viewerIds]);
+  }
+
+  realtimeEvents.subscribe('locationUpdate', async ({ userId, location }) => {
+    try {
+      // Nothing goes out while the user has sharing turned off or paused
+      const user = await storage.getUser(userId);
+      if (!user || !isSharingLocation(user)) {
+        return;
+      }
+      const channel = await getFamilyChannel(userId);
+      channel.delete(userId); // The sender already has their own fix
+      await broker.publish(Array.from(channel), {
+        type: 'locationUpdate',
+        userId: userId.toString(),
+        location,
+      });
+    } catch (error) {
+      console.error(`Error broadcasting location update for user ${userId}:`, error);
+    }
+  });
+
+  realtimeEvents.subscribe('geofence', async ({ recipientUserIds, ...event }) => {
+    try {
+      const channel = await getFamilyChannel(event.userId);
+      const recipients = recipientUserIds
+        ? recipientUserIds.filter(recipientId => channel.has(recipientId))
+        : Array.from(channel);
+      console.log(`Broadcasting geofence event for user ${event.userId} on family channel:`, event);
+      await broker.publish(recipients, {
+        type: 'geofence',
+        ...event,
+      });
+    } catch (error) {
+      console.error(`Error broadcasting geofence event for user ${event.userId}:`, error);
+    }
+  });
+
+  realtimeEvents.subscribe('notification', async (event) => {
+    try {
+      await broker.publish([event.userId], {
+        type: 'notification',
+        ...event,
+      });
+    } catch (error) {
+      console.error(`Error broadcasting notification for user ${event.userId}:`, error);
+    }
+  });
+
+  realtimeEvents.subscribe('importProgress', async (event) => {
+    try {
+      await broker.publish([event.userId], {
+        type: 'importProgress',
+        ...event,
+      });
+    } catch (error) {
+      console.error(`Error broadcasting import progress for user ${event.userId}:`, error);
+    }
+  });
+
+  return wss;
+}
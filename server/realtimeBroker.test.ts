@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from './db';
+import { InProcessBroker, type RealtimeEnvelope } from './realtimeBroker';
+
+describe('InProcessBroker', () => {
+  // Stands in for realtime_event_seq, which starts at 1 and outlives any one broker
+  let sequence: number;
+  let queries: string[];
+
+  beforeEach(() => {
+    sequence = 0;
+    queries = [];
+    mock.method(pool, 'query', async (text: string) => {
+      queries.push(text);
+      return { rows: [{ seq: String(++sequence) }] };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('numbers events from the database sequence', async () => {
+    const broker = new InProcessBroker();
+    const received: RealtimeEnvelope[] = [];
+    await broker.subscribe(envelope => received.push(envelope));
+
+    await broker.publish([1], { type: 'locationUpdate' });
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].seq, 1);
+    assert.match(queries[0], /nextval\('realtime_event_seq'\)/);
+  });
+
+  it('delivers events to every subscriber in publish order', async () => {
+    const broker = new InProcessBroker();
+    const first: number[] = [];
+    const second: number[] = [];
+    await broker.subscribe(envelope => first.push(envelope.seq));
+    await broker.subscribe(envelope => second.push(envelope.seq));
+
+    for (let i = 0; i < 5; i++) {
+      await broker.publish([1, 2], { type: 'geofence', index: i });
+    }
+
+    assert.deepEqual(first, [1, 2, 3, 4, 5]);
+    assert.deepEqual(second, first);
+  });
+
+  it('keeps numbering where the previous broker left off after a restart', async () => {
+    const before = new InProcessBroker();
+    const seen: number[] = [];
+    await before.subscribe(envelope => seen.push(envelope.seq));
+    await before.publish([1], { type: 'locationUpdate' });
+    await before.publish([1], { type: 'locationUpdate' });
+    await before.close();
+
+    const after = new InProcessBroker();
+    await after.subscribe(envelope => seen.push(envelope.seq));
+    await after.publish([1], { type: 'locationUpdate' });
+
+    assert.deepEqual(seen, [1, 2, 3]);
+  });
+
+  it('stops delivering once closed', async () => {
+    const broker = new InProcessBroker();
+    const received: RealtimeEnvelope[] = [];
+    await broker.subscribe(envelope => received.push(envelope));
+    await broker.close();
+
+    await broker.publish([1], { type: 'locationUpdate' });
+
+    assert.equal(received.length, 0);
+  });
+});
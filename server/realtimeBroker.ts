@@ -0,0 +1,135 @@
+import { EventEmitter } from "events";
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "./db";
+import { log } from "./vite";
+
+// An event ready for delivery: who should receive it and the message their sockets get
+export interface RealtimeEnvelope {
+  seq: number;
+  recipientIds: number[];
+  message: Record<string, unknown>;
+}
+
+// Fans realtime events out to every server instance. publish() assigns the sequence number;
+// every subscriber (on every instance) then delivers the envelope to the sockets it holds.
+export interface RealtimeBroker {
+  publish(recipientIds: number[], message: Record<string, unknown>): Promise<void>;
+  subscribe(handler: (envelope: RealtimeEnvelope) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Both brokers number events from the same database sequence, so sequence numbers keep increasing across
+// restarts and when a deployment switches brokers
+async function nextEventSeq(): Promise<number> {
+  const { rows } = await pool.query(`SELECT nextval('realtime_event_seq') AS seq`);
+  return Number(rows[0].seq);
+}
+
+// Single-process fan-out, for development and single-instance deployments
+export class InProcessBroker implements RealtimeBroker {
+  private emitter = new EventEmitter();
+
+  async publish(recipientIds: number[], message: Record<string, unknown>) {
+    const envelope: RealtimeEnvelope = { seq: await nextEventSeq(), recipientIds, message };
+    this.emitter.emit('envelope', envelope);
+  }
+
+  async subscribe(handler: (envelope: RealtimeEnvelope) => void) {
+    this.emitter.on('envelope', handler);
+  }
+
+  async close() {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// Cross-instance fan-out over Postgres LISTEN/NOTIFY, with sequence numbers from a database sequence
+export class PostgresBroker implements RealtimeBroker {
+  private readonly CHANNEL = 'realtime_events';
+  private readonly MAX_PAYLOAD_BYTES = 7900; // NOTIFY payloads are capped at 8000 bytes
+  private readonly RECONNECT_DELAY_MS = 5000;
+
+  private listener: PoolClient | null = null;
+  private handlers: Array<(envelope: RealtimeEnvelope) => void> = [];
+  private closed = false;
+
+  async publish(recipientIds: number[], message: Record<string, unknown>) {
+    const payload = JSON.stringify({ recipientIds, message });
+    if (Buffer.byteLength(payload) > this.MAX_PAYLOAD_BYTES) {
+      log(`Dropping realtime ${message.type} event: payload exceeds NOTIFY limit`);
+      return;
+    }
+
+    // Number and notify in one statement so the sequence number travels with the payload
+    await pool.query(
+      `SELECT pg_notify($1, json_build_object('seq', nextval('realtime_event_seq'), 'event', $2::json)::text)`,
+      [this.CHANNEL, payload],
+    );
+  }
+
+  async subscribe(handler: (envelope: RealtimeEnvelope) => void) {
+    this.handlers.push(handler);
+    if (!this.listener) {
+      await this.listen();
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    this.handlers = [];
+    if (this.listener) {
+      this.listener.release();
+      this.listener = null;
+    }
+  }
+
+  private async listen() {
+    const client = await pool.connect();
+    this.listener = client;
+
+    client.on('notification', (notification) => {
+      if (notification.channel !== this.CHANNEL || !notification.payload) {
+        return;
+      }
+      try {
+        const { seq, event } = JSON.parse(notification.payload);
+        const envelope: RealtimeEnvelope = { seq: Number(seq), recipientIds: event.recipientIds, message: event.message };
+        this.handlers.forEach(handler => handler(envelope));
+      } catch (error) {
+        log(`Malformed realtime notification: ${error}`);
+      }
+    });
+
+    // A dropped listener connection would silently stop fan-out, so reconnect
+    client.on('error', (error) => {
+      log(`Realtime listener connection failed: ${error}`);
+      client.release(error);
+      this.listener = null;
+      this.scheduleReconnect();
+    });
+
+    await client.query(`LISTEN ${this.CHANNEL}`);
+    log("Listening for realtime events on Postgres");
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) {
+      return;
+    }
+    setTimeout(() => {
+      this.listen().catch(error => {
+        log(`Realtime listener reconnect failed: ${error}`);
+        this.listener = null;
+        this.scheduleReconnect();
+      });
+    }, this.RECONNECT_DELAY_MS);
+  }
+}
+
+// REALTIME_BROKER=postgres lets several instances behind a load balancer share realtime events
+export function createRealtimeBroker(): RealtimeBroker {
+  if (process.env.REALTIME_BROKER === 'postgres') {
+    return new PostgresBroker();
+  }
+  return new InProcessBroker();
+}
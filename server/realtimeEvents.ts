@@ -0,0 +1,66 @@
+import { EventEmitter } from "events";
+import type { Location } from "@shared/schema";
+
+// A family member entered or exited a place
+export interface GeofenceEvent {
+  userId: number;
+  userName: string;
+  placeName: string;
+  action: 'entered' | 'exited';
+  message: string;
+  timestamp: string;
+  recipientUserIds?: number[]; // Narrows delivery below the whole family (e.g. place subscriptions)
+}
+
+// A stored notification that should also pop up live for its recipient
+export interface NotificationEvent {
+  userId: number; // Recipient
+  notificationType: string;
+  message: string;
+  timestamp: string;
+}
+
+// A user's newly saved location, for their family's live map
+export interface LocationUpdateEvent {
+  userId: number;
+  location: Location;
+}
+
+// Progress of a history import, for the user who started it
+export interface ImportProgressEvent {
+  userId: number;
+  importId: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number | null; // Fixes read from the file, known once all of it has been read
+  processed: number;
+  imported: number;
+  duplicates: number;
+  message?: string;
+}
+
+export interface RealtimeEventMap {
+  geofence: GeofenceEvent;
+  notification: NotificationEvent;
+  locationUpdate: LocationUpdateEvent;
+  importProgress: ImportProgressEvent;
+}
+
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+class RealtimeEventBus {
+  private emitter = new EventEmitter();
+
+  publish<K extends RealtimeEventName>(event: K, payload: RealtimeEventMap[K]) {
+    this.emitter.emit(event, payload);
+  }
+
+  // Returns an unsubscribe function
+  subscribe<K extends RealtimeEventName>(event: K, handler: (payload: RealtimeEventMap[K]) => void): () => void {
+    this.emitter.on(event, handler);
+    return () => {
+      this.emitter.off(event, handler);
+    };
+  }
+}
+
+export const realtimeEvents = new RealtimeEventBus();
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { recommendReporting, type ReportingInputs } from './reportingPolicy';
+
+const atRest: ReportingInputs = {
+  speed: 0,
+  geofenceDistance: null,
+  insideGeofence: false,
+  pendingTransition: false,
+  batteryLevel: 0.8,
+  isCharging: false,
+};
+
+describe('recommendReporting', () => {
+  it('backs off for a phone lying still inside home, however close the fence edge is', () => {
+    const recommendation = recommendReporting({ ...atRest, geofenceDistance: 20, insideGeofence: true });
+    assert.equal(recommendation.motion, 'stationary');
+    assert.equal(recommendation.accuracy, 'low');
+    assert.ok(recommendation.intervalSeconds >= 5 * 60, `expected a back-off, got ${recommendation.intervalSeconds}s`);
+  });
+
+  it('tightens for a still phone just outside a place', () => {
+    const recommendation = recommendReporting({ ...atRest, geofenceDistance: 20 });
+    assert.equal(recommendation.accuracy, 'high');
+    assert.equal(recommendation.intervalSeconds, 30);
+  });
+
+  it('tightens once a phone inside a place starts moving', () => {
+    const recommendation = recommendReporting({ ...atRest, speed: 1.5, geofenceDistance: 20, insideGeofence: true });
+    assert.equal(recommendation.motion, 'walking');
+    assert.equal(recommendation.accuracy, 'high');
+    assert.equal(recommendation.intervalSeconds, 30);
+  });
+
+  it('tightens while a transition is being confirmed, even when still', () => {
+    const recommendation = recommendReporting({ ...atRest, geofenceDistance: 20, insideGeofence: true, pendingTransition: true });
+    assert.equal(recommendation.intervalSeconds, 15);
+    assert.equal(recommendation.accuracy, 'high');
+  });
+
+  it('backs off further when far from every place', () => {
+    const recommendation = recommendReporting({ ...atRest, geofenceDistance: 5000 });
+    assert.equal(recommendation.intervalSeconds, 10 * 60);
+  });
+});
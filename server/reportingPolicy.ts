@@ -0,0 +1,168 @@
+import { storage } from './storage';
+import { calculateDistance, distanceToGeofenceEdge, isWithinGeofence } from './geofencing';
+import {
+  DEFAULT_REPORTING_RECOMMENDATION,
+  type Location,
+  type Place,
+  type MotionState,
+  type ReportingAccuracy,
+  type ReportingRecommendation,
+} from '@shared/schema';
+
+export interface ReportingInputs {
+  speed: number | null; // Best estimate in meters per second, null when unknown
+  geofenceDistance: number | null; // Meters to the nearest geofence edge, null without places
+  insideGeofence: boolean; // The nearest edge belongs to a place the phone is inside
+  pendingTransition: boolean; // A geofence entry or exit is waiting on confirming fixes
+  batteryLevel: number | null;
+  isCharging: boolean;
+}
+
+const MIN_INTERVAL_SECONDS = 15;
+const MAX_INTERVAL_SECONDS = 15 * 60;
+
+// Motion thresholds in meters per second
+const STATIONARY_MAX_SPEED = 0.7;
+const WALKING_MAX_SPEED = 7;
+
+// Within this distance of a fence edge the client tracks as tightly as it can
+const NEAR_GEOFENCE_METERS = 200;
+// Beyond this distance a stationary phone can back off further
+const FAR_FROM_GEOFENCE_METERS = 2000;
+
+const LOW_BATTERY_LEVEL = 0.3;
+const CRITICAL_BATTERY_LEVEL = 0.15;
+
+// How far back to look for fixes when estimating speed
+const SPEED_WINDOW_MS = 10 * 60 * 1000;
+const MIN_SPEED_SAMPLE_MS = 30 * 1000;
+
+const ACCURACY_STEPS: ReportingAccuracy[] = ['low', 'balanced', 'high'];
+
+function clampInterval(seconds: number): number {
+  return Math.round(Math.min(MAX_INTERVAL_SECONDS, Math.max(MIN_INTERVAL_SECONDS, seconds)));
+}
+
+function classifyMotion(speed: number | null): MotionState {
+  if (speed === null) {
+    return 'unknown';
+  }
+  if (speed < STATIONARY_MAX_SPEED) {
+    return 'stationary';
+  }
+  return speed < WALKING_MAX_SPEED ? 'walking' : 'driving';
+}
+
+// Pick the next report interval and accuracy: the base rate follows motion, geofences nearby (or about to
+// be reached at the current speed) tighten it, and a low, unplugged battery relaxes it again. A phone
+// lying still inside a place isn't about to cross its edge, however close the edge is, so it keeps the
+// stationary back-off until it moves.
+export function recommendReporting(inputs: ReportingInputs): ReportingRecommendation {
+  const motion = classifyMotion(inputs.speed);
+  let recommendation: ReportingRecommendation;
+  switch (motion) {
+    case 'stationary':
+      recommendation = inputs.geofenceDistance === null || inputs.geofenceDistance > FAR_FROM_GEOFENCE_METERS
+        ? { intervalSeconds: 10 * 60, accuracy: 'low', motion, reason: 'stationary, far from places' }
+        : { intervalSeconds: 5 * 60, accuracy: 'low', motion, reason: 'stationary' };
+      break;
+    case 'walking':
+      recommendation = { intervalSeconds: 60, accuracy: 'balanced', motion, reason: 'walking' };
+      break;
+    case 'driving':
+      recommendation = { intervalSeconds: 30, accuracy: 'high', motion, reason: 'driving' };
+      break;
+    default:
+      recommendation = { ...DEFAULT_REPORTING_RECOMMENDATION, reason: 'no recent movement data' };
+  }
+
+  let nearGeofence = false;
+  if (inputs.pendingTransition) {
+    nearGeofence = true;
+    recommendation = { ...recommendation, intervalSeconds: MIN_INTERVAL_SECONDS, accuracy: 'high', reason: 'confirming place arrival or departure' };
+  } else if (inputs.geofenceDistance !== null && !(motion === 'stationary' && inputs.insideGeofence)) {
+    // Seconds until the nearest fence edge could be crossed at the current speed
+    const secondsToEdge = inputs.geofenceDistance / Math.max(inputs.speed ?? 0, 1);
+    if (inputs.geofenceDistance <= NEAR_GEOFENCE_METERS) {
+      nearGeofence = true;
+      recommendation = { ...recommendation, intervalSeconds: Math.min(recommendation.intervalSeconds, 30), accuracy: 'high', reason: 'near a place' };
+    } else if (secondsToEdge < recommendation.intervalSeconds) {
+      nearGeofence = true;
+      recommendation = { ...recommendation, intervalSeconds: secondsToEdge / 2, accuracy: 'high', reason: 'approaching a place' };
+    }
+  }
+
+  if (!inputs.isCharging && inputs.batteryLevel !== null && inputs.batteryLevel <= LOW_BATTERY_LEVEL) {
+    const critical = inputs.batteryLevel <= CRITICAL_BATTERY_LEVEL;
+    if (nearGeofence) {
+      // Still catch the fence crossing, just less eagerly
+      recommendation = {
+        ...recommendation,
+        intervalSeconds: Math.max(recommendation.intervalSeconds, critical ? 60 : 30),
+        accuracy: critical ? 'balanced' : recommendation.accuracy,
+      };
+    } else {
+      const stepDown = Math.max(0, ACCURACY_STEPS.indexOf(recommendation.accuracy) - 1);
+      recommendation = {
+        ...recommendation,
+        intervalSeconds: recommendation.intervalSeconds * (critical ? 3 : 2),
+        accuracy: ACCURACY_STEPS[stepDown],
+      };
+    }
+    recommendation.reason += critical ? ', battery critical' : ', battery low';
+  }
+
+  return { ...recommendation, intervalSeconds: clampInterval(recommendation.intervalSeconds) };
+}
+
+// Average speed over the user's recent fixes (net displacement, so GPS jitter while still reads as still)
+function estimateSpeed(recentFixes: Location[]): number | null {
+  const timed = recentFixes.filter(fix => fix.timestamp && !fix.suspect);
+  if (timed.length < 2) {
+    return null;
+  }
+
+  const first = timed[0];
+  const last = timed[timed.length - 1];
+  const elapsedMs = last.timestamp!.getTime() - first.timestamp!.getTime();
+  if (elapsedMs < MIN_SPEED_SAMPLE_MS) {
+    return null;
+  }
+  return calculateDistance(first.latitude, first.longitude, last.latitude, last.longitude) / (elapsedMs / 1000);
+}
+
+// Work out a recommendation for a just-saved fix from the speed and battery readings it carries. Never
+// throws: the fix is saved either way, so any lookup failure falls back to a middle-of-the-road default.
+export async function getReportingRecommendation(userId: number, location: Location): Promise<ReportingRecommendation> {
+  try {
+    const now = location.timestamp ?? new Date();
+    const [recentFixes, places, geofenceStates] = await Promise.all([
+      storage.getUserLocationsSince(userId, new Date(now.getTime() - SPEED_WINDOW_MS)),
+      storage.getFamilyPlaces(userId),
+      storage.getUserGeofenceStates(userId),
+    ]);
+
+    const reportedSpeed = location.speed !== null && location.speed >= 0 ? location.speed : null;
+    let nearestPlace: Place | undefined;
+    let nearestDistance = Infinity;
+    for (const place of places ?? []) {
+      const distance = distanceToGeofenceEdge(location.latitude, location.longitude, place);
+      if (distance < nearestDistance) {
+        nearestPlace = place;
+        nearestDistance = distance;
+      }
+    }
+
+    return recommendReporting({
+      speed: reportedSpeed ?? estimateSpeed(recentFixes),
+      geofenceDistance: nearestPlace ? nearestDistance : null,
+      insideGeofence: !!nearestPlace && isWithinGeofence(location.latitude, location.longitude, nearestPlace),
+      pendingTransition: geofenceStates.some(state => state.pendingInside !== null),
+      batteryLevel: location.batteryLevel,
+      isCharging: location.isCharging ?? false,
+    });
+  } catch (error) {
+    console.error(`Error computing reporting recommendation for user ${userId}:`, error);
+    return DEFAULT_REPORTING_RECOMMENDATION;
+  }
+}
@@ -0,0 +1,60 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+class LocationRetentionJob {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isPurging = false;
+  private readonly PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    log("Starting location history retention purges");
+
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.purge();
+      } catch (error) {
+        log(`Error purging expired location history: ${error}`);
+      }
+    }, this.PURGE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      log("Stopped location history retention purges");
+    }
+  }
+
+  async purge() {
+    // Skip a tick rather than overlap if the previous purge is still running
+    if (this.isPurging) {
+      return;
+    }
+
+    this.isPurging = true;
+    try {
+      const deleted = await storage.purgeExpiredHistory();
+      if (deleted.locations > 0 || deleted.segments > 0) {
+        log(`Purged ${deleted.locations} expired locations and ${deleted.segments} timeline segments`);
+      }
+    } finally {
+      this.isPurging = false;
+    }
+  }
+}
+
+export const locationRetentionJob = new LocationRetentionJob();
+
+// Graceful shutdown handling
+process.on('SIGTERM', () => {
+  locationRetentionJob.stop();
+});
+
+process.on('SIGINT', () => {
+  locationRetentionJob.stop();
+});
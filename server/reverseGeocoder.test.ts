@@ -0,0 +1,130 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LocalTokenBucket,
+  OfflineGazetteerProvider,
+  ReverseGeocoder,
+  reverseGeocoder,
+  type RateLimiter,
+  type ReverseGeocodingProvider,
+} from './reverseGeocoder';
+import { GAZETTEER } from './data/gazetteer';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+const zurich = { name: 'Zurich', region: 'Zurich', country: 'Switzerland', latitude: 47.3769, longitude: 8.5417 };
+
+// Counts lookups and answers with a fixed address, or fails when told to
+class FakeProvider implements ReverseGeocodingProvider {
+  readonly name = 'fake';
+  calls = 0;
+  failing = false;
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    this.calls++;
+    if (this.failing) {
+      throw new Error('provider down');
+    }
+    return `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`;
+  }
+}
+
+const unlimited: RateLimiter = { tryAcquire: async () => true };
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('OfflineGazetteerProvider', () => {
+  const provider = new OfflineGazetteerProvider([zurich]);
+
+  it('names the nearest place for a point close to it', async () => {
+    assert.equal(await provider.reverse(zurich.latitude, zurich.longitude), 'Zurich, Zurich, Switzerland');
+  });
+
+  it('says "Near" for a point further out', async () => {
+    const address = await provider.reverse(zurich.latitude + 10000 / METERS_PER_DEGREE_LAT, zurich.longitude);
+    assert.equal(address, 'Near Zurich, Zurich, Switzerland');
+  });
+
+  it('has no address for a point beyond its search radius', async () => {
+    assert.equal(await provider.reverse(zurich.latitude + 50000 / METERS_PER_DEGREE_LAT, zurich.longitude), null);
+  });
+});
+
+describe('reverseGeocoder', () => {
+  it('falls back to the bundled gazetteer without touching the network', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () => {
+      throw new Error('no network');
+    });
+    const [entry] = GAZETTEER;
+
+    const address = await reverseGeocoder.lookup(entry.latitude, entry.longitude);
+
+    assert.equal(address, `${entry.name}, ${entry.region}, ${entry.country}`);
+    assert.equal(fetchMock.mock.callCount(), 0);
+  });
+});
+
+describe('ReverseGeocoder', () => {
+  it('answers repeat lookups of a point from its cache', async () => {
+    const provider = new FakeProvider();
+    const geocoder = new ReverseGeocoder(provider, { rateLimiter: unlimited });
+
+    await geocoder.lookup(47.37691, 8.54171);
+    const address = await geocoder.lookup(47.37689, 8.54169);
+
+    assert.equal(address, '47.38, 8.54');
+    assert.equal(provider.calls, 1);
+  });
+
+  it('shares one provider request between concurrent lookups of a point', async () => {
+    const provider = new FakeProvider();
+    const geocoder = new ReverseGeocoder(provider, { rateLimiter: unlimited });
+
+    const addresses = await Promise.all([geocoder.lookup(47.3769, 8.5417), geocoder.lookup(47.3769, 8.5417)]);
+
+    assert.deepEqual(addresses, ['47.38, 8.54', '47.38, 8.54']);
+    assert.equal(provider.calls, 1);
+  });
+
+  it('returns null on provider failure and retries on the next lookup', async () => {
+    const provider = new FakeProvider();
+    const geocoder = new ReverseGeocoder(provider, { rateLimiter: unlimited });
+
+    provider.failing = true;
+    assert.equal(await geocoder.lookup(47.3769, 8.5417), null);
+    provider.failing = false;
+    assert.equal(await geocoder.lookup(47.3769, 8.5417), '47.38, 8.54');
+    assert.equal(provider.calls, 2);
+  });
+
+  it('skips the provider once the rate limit is exhausted', async () => {
+    const provider = new FakeProvider();
+    const geocoder = new ReverseGeocoder(provider, { rateLimiter: new LocalTokenBucket(1, 2) });
+
+    const addresses = await Promise.all([
+      geocoder.lookup(47.1, 8.1),
+      geocoder.lookup(47.2, 8.2),
+      geocoder.lookup(47.3, 8.3),
+    ]);
+
+    assert.deepEqual(addresses, ['47.10, 8.10', '47.20, 8.20', null]);
+    assert.equal(provider.calls, 2);
+  });
+});
+
+describe('LocalTokenBucket', () => {
+  it('allows a burst, then refills at the configured rate', async () => {
+    let now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+    const bucket = new LocalTokenBucket(2, 3);
+
+    const burst = [await bucket.tryAcquire(), await bucket.tryAcquire(), await bucket.tryAcquire(), await bucket.tryAcquire()];
+    assert.deepEqual(burst, [true, true, true, false]);
+
+    now += 500;
+    assert.equal(await bucket.tryAcquire(), true);
+    assert.equal(await bucket.tryAcquire(), false);
+  });
+});
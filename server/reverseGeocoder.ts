@@ -0,0 +1,197 @@
+import { log } from "./vite";
+import { storage } from "./storage";
+import { calculateDistance } from "./geofencing";
+import { GAZETTEER, type GazetteerEntry } from "./data/gazetteer";
+
+// A source of human-readable addresses for coordinates
+export interface ReverseGeocodingProvider {
+  readonly name: string;
+  // Resolves to null when the provider has no address for the point
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+}
+
+// Resolves coordinates against the bundled gazetteer, so addresses work with no network access
+export class OfflineGazetteerProvider implements ReverseGeocodingProvider {
+  readonly name = "offline";
+
+  constructor(
+    private readonly entries: GazetteerEntry[] = GAZETTEER,
+    private readonly maxDistanceMeters = 25 * 1000,
+    private readonly nearbyDistanceMeters = 3 * 1000,
+  ) {}
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    let nearest: GazetteerEntry | undefined;
+    let nearestDistance = Infinity;
+    for (const entry of this.entries) {
+      const distance = calculateDistance(latitude, longitude, entry.latitude, entry.longitude);
+      if (distance < nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest || nearestDistance > this.maxDistanceMeters) {
+      return null;
+    }
+
+    const label = `${nearest.name}, ${nearest.region}, ${nearest.country}`;
+    return nearestDistance <= this.nearbyDistanceMeters ? label : `Near ${label}`;
+  }
+}
+
+// Resolves coordinates with an OpenStreetMap Nominatim server (public or self-hosted)
+export class NominatimProvider implements ReverseGeocodingProvider {
+  readonly name = "nominatim";
+
+  constructor(
+    private readonly baseUrl = "https://nominatim.openstreetmap.org",
+    private readonly timeoutMs = 3000,
+  ) {}
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    const url = new URL("/reverse", this.baseUrl);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("lat", latitude.toString());
+    url.searchParams.set("lon", longitude.toString());
+
+    const response = await fetch(url, {
+      headers: { "User-Agent": "FamilyLocator/1.0" },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim responded with ${response.status}`);
+    }
+
+    const result = await response.json() as { display_name?: string };
+    return result.display_name || null;
+  }
+}
+
+// Decides whether a provider request may go ahead
+export interface RateLimiter {
+  tryAcquire(): Promise<boolean>;
+}
+
+// Token bucket held by this process: refills continuously at requestsPerSecond, holding at most `burst` tokens
+export class LocalTokenBucket implements RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly requestsPerSecond: number, private readonly burst: number) {
+    this.tokens = burst;
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) / 1000 * this.requestsPerSecond);
+    this.lastRefill = now;
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+// The same token bucket kept in Postgres, so every server instance draws from one budget
+export class SharedTokenBucket implements RateLimiter {
+  constructor(
+    private readonly name: string,
+    private readonly requestsPerSecond: number,
+    private readonly burst: number,
+  ) {}
+
+  async tryAcquire(): Promise<boolean> {
+    try {
+      return await storage.takeRateLimitToken(this.name, this.requestsPerSecond, this.burst);
+    } catch (error) {
+      // Without the shared budget we can't tell whether a request is allowed, so don't send one
+      log(`Rate limit check for ${this.name} failed: ${error}`);
+      return false;
+    }
+  }
+}
+
+interface ReverseGeocoderOptions {
+  cachePrecision?: number; // Decimal places coordinates are rounded to (4 is roughly 11m)
+  cacheSize?: number;
+  rateLimiter?: RateLimiter;
+}
+
+// Caching, rate-limited front for a provider. Lookups never throw: when the provider fails or the rate
+// limit is exhausted the caller gets null and the location is saved without an address.
+export class ReverseGeocoder {
+  private cache = new Map<string, string | null>();
+  private inFlight = new Map<string, Promise<string | null>>();
+  private readonly cachePrecision: number;
+  private readonly cacheSize: number;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(private readonly provider: ReverseGeocodingProvider, options: ReverseGeocoderOptions = {}) {
+    this.cachePrecision = options.cachePrecision ?? 4;
+    this.cacheSize = options.cacheSize ?? 5000;
+    this.rateLimiter = options.rateLimiter ?? new LocalTokenBucket(1, 5);
+  }
+
+  async lookup(latitude: number, longitude: number): Promise<string | null> {
+    const key = `${latitude.toFixed(this.cachePrecision)},${longitude.toFixed(this.cachePrecision)}`;
+
+    if (this.cache.has(key)) {
+      // Re-insert so the Map's insertion order doubles as least-recently-used order
+      const cached = this.cache.get(key)!;
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    // Registered before the rate limit check so concurrent lookups of the same point share one request
+    const request = (async () => {
+      if (!(await this.rateLimiter.tryAcquire())) {
+        log(`Reverse geocoding rate limit reached, skipping ${key}`);
+        return null;
+      }
+      try {
+        const address = await this.provider.reverse(latitude, longitude);
+        this.remember(key, address);
+        return address;
+      } catch (error) {
+        // Failures aren't cached so the point is retried on its next fix
+        log(`Reverse geocoding with ${this.provider.name} failed for ${key}: ${error}`);
+        return null;
+      }
+    })().finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private remember(key: string, address: string | null) {
+    this.cache.set(key, address);
+    if (this.cache.size > this.cacheSize) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+  }
+}
+
+// REVERSE_GEOCODER=nominatim switches to the network provider (NOMINATIM_URL for a self-hosted server);
+// everything else uses the bundled gazetteer
+function createReverseGeocoder(): ReverseGeocoder {
+  if (process.env.REVERSE_GEOCODER === "nominatim") {
+    // The public Nominatim usage policy allows at most one request per second for the whole application
+    return new ReverseGeocoder(new NominatimProvider(process.env.NOMINATIM_URL), {
+      rateLimiter: new SharedTokenBucket("nominatim", 1, 1),
+    });
+  }
+  return new ReverseGeocoder(new OfflineGazetteerProvider(), { rateLimiter: new LocalTokenBucket(50, 100) });
+}
+
+export const reverseGeocoder = createReverseGeocoder();
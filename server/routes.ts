@@ -1,20 +1,82 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
-import { insertLocationSchema, insertPlaceSchema, insertFamilyConnectionSchema, insertNotificationSchema, passwordResetCodes, users } from "@shared/schema";
+import { storage, type LocationHistoryCursor } from "./storage";
+import { setupAuth, isAuthenticated, toAuthUser } from "./auth";
+import { insertLocationSchema, insertPlaceSchema, insertFamilyConnectionSchema, insertNotificationSchema, insertPlaceSubscriptionSchema, hasCompleteTimeWindow, insertPlaceExpectationSchema, insertDeviceAlertRuleSchema, placeBoundarySchema, placeRadiusSchema, timezoneSchema, passwordResetCodes, users } from "@shared/schema";
 import { eq, desc, and, sql, gte, lte } from "drizzle-orm";
 import { db } from "./db";
 import { locationLogger } from "./locationLogger";
+import { jobScheduler } from "./jobScheduler";
+import { expectationScheduler } from "./expectationScheduler";
+import { deviceAlertChecker } from "./deviceAlertChecker";
+import { locationRetentionJob } from "./retentionJob";
+import { locationCompactionJob } from "./locationCompaction";
 import { z } from "zod";
 import { checkGeofenceTransitions } from "./geofencing";
-import { ObjectStorageService } from "./objectStorage.js";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { fillAddressInBackground } from "./locationAddress";
+import { getReportingRecommendation } from "./reportingPolicy";
+import { addFixToTimeline, updateTimeline } from "./timeline";
+import { exportLocations } from "./locationExport";
+import { detectLocationFileFormat, readLocationFile, importLocations, LocationImportError, FORMAT_SNIFF_BYTES } from "./locationImport";
+import { saveLocationBatch, type BufferedFix } from "./locationBatch";
+import { resolveCaptureTime } from "./captureTime";
+import { assessFix } from "./locationFilter";
+import { sharingPause, isSharingLocation, isCapturedWhilePaused } from "./sharingPause";
+import { getLocalDayBounds } from "./localTime";
+import { setupRealtime } from "./realtime";
+import { realtimeEvents } from "./realtimeEvents";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage.js";
+import { scrypt, randomBytes, randomUUID, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 
 const scryptAsync = promisify(scrypt);
 
+const DEFAULT_HISTORY_PAGE_SIZE = 500;
+const MAX_HISTORY_PAGE_SIZE = 5000;
+const MAX_EXPORT_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+const MAX_IMPORT_FILE_BYTES = 200 * 1024 * 1024; // Takeout Records.json files for long histories get big
+const MAX_BATCH_FIXES = 1000;
+const MAX_SHARING_PAUSE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_PLACE_PAUSE_MS = 24 * 60 * 60 * 1000; // "Until I arrive home" still ends if they never do
+
+// Allowed thresholds per device alert kind: battery percent, or minutes without a fix
+const DEVICE_ALERT_THRESHOLD_LIMITS: Record<string, [number, number]> = {
+  low_battery: [5, 90],
+  offline: [15, 7 * 24 * 60],
+};
+
+function isValidAlertThreshold(kind: string, threshold: number): boolean {
+  const [min, max] = DEVICE_ALERT_THRESHOLD_LIMITS[kind] ?? [0, -1];
+  return threshold >= min && threshold <= max;
+}
+
+// Whether a viewer may see a user's location data: their own, or an accepted family member who shares it (and
+// hasn't paused sharing)
+async function canViewLocationsOf(viewerId: number, userId: number): Promise<boolean> {
+  if (viewerId === userId) {
+    return true;
+  }
+  const familyMembers = await storage.getFamilyMembers(viewerId);
+  return familyMembers.some(member => member.id === userId && isSharingLocation(member));
+}
+
+// History cursors are opaque to clients: base64url-encoded JSON of the storage cursor
+function encodeHistoryCursor(cursor: LocationHistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeHistoryCursor(value: string): LocationHistoryCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    const valid = typeof cursor?.id === "number" &&
+      typeof cursor?.timestamp === "string" &&
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/.test(cursor.timestamp);
+    return valid ? { id: cursor.id, timestamp: cursor.timestamp } : null;
+  } catch {
+    return null;
+  }
+}
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -30,7 +92,7 @@ async function comparePasswords(supplied: string, stored: string) {
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Profile update routes
   app.put('/api/user/profile', isAuthenticated, async (req: any, res) => {
@@ -218,42 +280,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
         locationSharingEnabled: z.boolean().optional(),
         locationHistoryEnabled: z.boolean().optional(),
         notificationsEnabled: z.boolean().optional(),
+        locationRetentionDays: z.number().int().min(1).max(3650).nullable().optional(), // null = keep forever
+        autoLoggingEnabled: z.boolean().optional(),
+        locationLogIntervalMinutes: z.number().int().min(5).max(24 * 60).optional(),
       });
       
       const settings = settingsSchema.parse(req.body);
-      const user = await storage.updateUserSettings(userId, settings);
+      let user = await storage.updateUserSettings(userId, settings);
       
-      // Start or stop hourly logging based on location history setting
-      if (settings.locationHistoryEnabled !== undefined) {
-        if (settings.locationHistoryEnabled) {
-          locationLogger.startHourlyLogging(userId.toString());
-        } else {
-          locationLogger.stopHourlyLogging(userId.toString());
-        }
+      // Turning sharing off ends any pause too, without telling the family sharing resumed
+      if (settings.locationSharingEnabled === false) {
+        user = await sharingPause.resume(userId, 'manual') ?? user;
       }
       
-      res.json(user);
+      // Apply a shorter retention period, or history being switched off, to existing rows right away
+      if (settings.locationHistoryEnabled === false || settings.locationRetentionDays !== undefined) {
+        const deleted = await storage.purgeExpiredHistory(userId);
+        console.log(`Purged ${deleted.locations} locations and ${deleted.segments} timeline segments for user ${userId} after settings change`);
+      }
+      
+      // Start or stop automatic logging (it needs history kept too), picking up any new interval
+      if (settings.locationHistoryEnabled === false || settings.autoLoggingEnabled === false) {
+        await locationLogger.disable(userId);
+      } else if (settings.locationHistoryEnabled || settings.autoLoggingEnabled || settings.locationLogIntervalMinutes !== undefined) {
+        await locationLogger.enable(userId, settings.locationLogIntervalMinutes !== undefined);
+      }
+      
+      res.json(toAuthUser(user));
     } catch (error) {
       console.error("Error updating settings:", error);
       res.status(500).json({ message: "Failed to update settings" });
     }
   });
 
+  // Pause sharing until a time, or until arriving at a place (with a time limit as a backstop)
+  app.post('/api/sharing/pause', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = z.object({
+        until: z.coerce.date().optional(),
+        resumePlaceId: z.number().int().optional(),
+      }).safeParse(req.body);
+      
+      const now = Date.now();
+      const until = parsed.success
+        ? parsed.data.until ?? (parsed.data.resumePlaceId !== undefined ? new Date(now + DEFAULT_PLACE_PAUSE_MS) : undefined)
+        : undefined;
+      if (!parsed.success || !until || until.getTime() <= now || until.getTime() > now + MAX_SHARING_PAUSE_MS) {
+        return res.status(400).json({ message: "Pause needs an end time within the next 7 days, or a place to resume at" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.locationSharingEnabled) {
+        return res.status(400).json({ message: "Location sharing is already off" });
+      }
+      
+      let resumePlace = null;
+      if (parsed.data.resumePlaceId !== undefined) {
+        const places = await storage.getFamilyPlaces(userId);
+        resumePlace = places.find(place => place.id === parsed.data.resumePlaceId) ?? null;
+        if (!resumePlace) {
+          return res.status(404).json({ message: "Place not found" });
+        }
+      }
+      
+      const updatedUser = await sharingPause.pause(user, until, resumePlace);
+      res.json(toAuthUser(updatedUser));
+    } catch (error) {
+      console.error("Error pausing location sharing:", error);
+      res.status(500).json({ message: "Failed to pause location sharing" });
+    }
+  });
+
+  app.post('/api/sharing/resume', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      await sharingPause.resume(userId, 'manual');
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toAuthUser(user));
+    } catch (error) {
+      console.error("Error resuming location sharing:", error);
+      res.status(500).json({ message: "Failed to resume location sharing" });
+    }
+  });
+
   // Location routes
   app.post('/api/locations', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       console.log('Saving location for user:', userId, 'data:', req.body);
+      const receivedAt = new Date();
       const locationData = insertLocationSchema.parse({
         ...req.body,
         userId,
       });
+
+      // Keep the device's capture time when it's plausible
+      const capturedAt = resolveCaptureTime(locationData.timestamp, receivedAt);
+      if (!capturedAt) {
+        return res.status(400).json({ message: "Location timestamp is too far from the server clock" });
+      }
+      locationData.timestamp = capturedAt;
+
+      // Sanity-check the fix against the user's previous ones: garbage is refused, implausible fixes are
+      // kept in history as suspect but go no further
+      const [previousLatest, previousAny, user, pauses] = await Promise.all([
+        storage.getUserLatestLocation(userId),
+        storage.getUserLatestLocation(userId, true),
+        storage.getUser(userId),
+        storage.getSharingPauses(userId, capturedAt, capturedAt),
+      ]);
+      const assessment = assessFix(locationData, previousLatest, previousAny);
+      if (assessment.verdict === 'reject') {
+        return res.status(400).json({ message: `Location rejected: ${assessment.reason}` });
+      }
+      const suspect = assessment.verdict === 'suspect';
+
+      const location = await storage.saveLocation({
+        ...locationData,
+        suspect,
+        suspectReason: suspect ? assessment.reason : null,
+        capturedWhilePaused: isCapturedWhilePaused(pauses, capturedAt),
+      });
+      console.log(suspect ? `Saved suspect location (${location.suspectReason}):` : 'Saved location successfully:', location);
       
-      const location = await storage.saveLocation(locationData);
-      console.log('Saved location successfully:', location);
+      // Fill in the address server-side when the client didn't send one, without making the client wait
+      if (!suspect) {
+        fillAddressInBackground(location);
+      }
+      
+      // A fix that arrives after a newer one (e.g. a slow retry) only fills in history: it doesn't notify,
+      // move geofences or replace the live position. Neither does a suspect one.
+      const isLatest = !suspect &&
+        (!previousLatest?.timestamp || capturedAt.getTime() >= previousLatest.timestamp.getTime());
       
-      // Get user info for notifications
-      const user = await storage.getUser(userId);
       const userName = user?.firstName || user?.email || 'User';
       
       // Create location update notification for family members only (not self) and limit frequency
@@ -266,7 +433,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const timeSinceLastNotification = currentTime - lastNotificationTime;
       const shouldCreateNotification = timeSinceLastNotification > 5 * 60 * 1000; // 5 minutes
       
-      if (shouldCreateNotification && familyMembers.length > 0) {
+      if (isLatest && user && isSharingLocation(user) && shouldCreateNotification && familyMembers.length > 0) {
         // Initialize global tracking object if it doesn't exist
         if (!(global as any).lastLocationNotification) {
           (global as any).lastLocationNotification = {};
@@ -286,15 +453,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log(`Created location notification for family member ${familyMember.id}`);
             
             // Broadcast notification via WebSocket for real-time updates
-            if ((global as any).broadcastNotification) {
-              (global as any).broadcastNotification({
-                type: 'notification',
-                userId: familyMember.id,
-                notificationType: 'location',
-                message: `${userName} updated their location`,
-                timestamp: new Date().toISOString()
-              });
-            }
+            realtimeEvents.publish('notification', {
+              userId: familyMember.id,
+              notificationType: 'location',
+              message: `${userName} updated their location`,
+              timestamp: new Date().toISOString()
+            });
           } catch (notificationError) {
             console.error(`Failed to create location notification for user ${familyMember.id}:`, notificationError);
           }
@@ -302,18 +466,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check for geofence transitions
-      await checkGeofenceTransitions(userId, location.latitude, location.longitude);
+      if (isLatest) {
+        await checkGeofenceTransitions(userId, location);
+      }
+      
+      // Fold the new fix into the user's stays and trips, unless they don't keep history
+      if (user?.locationHistoryEnabled && isLatest) {
+        await addFixToTimeline(userId, location);
+      } else if (user?.locationHistoryEnabled) {
+        await updateTimeline(userId, capturedAt);
+      }
       
       // Broadcast location update to family members via WebSocket
-      broadcastLocationUpdate(userId.toString(), location);
+      if (isLatest) {
+        realtimeEvents.publish('locationUpdate', { userId, location });
+      }
       
-      res.json(location);
+      // Tell the client when to report next, based on motion, nearby places and battery
+      const reporting = await getReportingRecommendation(userId, location);
+      
+      res.json({ ...location, reporting });
     } catch (error) {
       console.error("Error saving location:", error);
       res.status(500).json({ message: "Failed to save location" });
     }
   });
 
+  // Upload fixes buffered on the device while it was offline, in capture order
+  app.post('/api/locations/batch', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = z.object({
+        fixes: z.array(z.unknown()).min(1).max(MAX_BATCH_FIXES),
+      }).safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: `Expected between 1 and ${MAX_BATCH_FIXES} timestamped fixes` });
+      }
+      
+      // Validate fixes one at a time: a single malformed fix is rejected (and reported by its index)
+      // rather than failing the whole batch, which the client would otherwise retry forever
+      const bufferedFixSchema = insertLocationSchema.omit({ userId: true }).extend({ timestamp: z.coerce.date() });
+      const fixes: BufferedFix[] = [];
+      const invalid: number[] = [];
+      parsed.data.fixes.forEach((fix, index) => {
+        const parsedFix = bufferedFixSchema.safeParse(fix);
+        if (parsedFix.success) {
+          fixes.push(parsedFix.data);
+        } else {
+          invalid.push(index);
+        }
+      });
+      
+      const result = await saveLocationBatch(userId, fixes);
+      result.rejected += invalid.length;
+      console.log(`Saved batch of ${result.saved} locations for user ${userId} (${result.duplicates} duplicates, ${result.rejected} rejected, ${result.suspect} suspect)`);
+      
+      // Reporting advice follows the newest fix, as for single uploads
+      const reporting = result.latest ? await getReportingRecommendation(userId, result.latest) : null;
+      
+      res.json({ ...result, invalid, reporting });
+    } catch (error) {
+      console.error("Error saving location batch:", error);
+      res.status(500).json({ message: "Failed to save locations" });
+    }
+  });
+
+  // Delete all of the user's location history
+  app.delete('/api/locations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const deleted = await storage.deleteUserLocations(userId);
+      console.log(`Deleted ${deleted} locations for user ${userId}`);
+      res.json({ message: "Location history deleted", deleted });
+    } catch (error) {
+      console.error("Error deleting location history:", error);
+      res.status(500).json({ message: "Failed to delete location history" });
+    }
+  });
+
   app.get('/api/locations/current', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -341,13 +572,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get location history for family members in the past 24 hours
+  // Get location history for family members, newest first. Defaults to the past 24 hours sampled hourly;
+  // when more rows remain, the X-Next-Cursor header holds the value to pass as ?cursor= for the next page.
   app.get('/api/locations/history', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      console.log('Fetching location history for user:', userId);
-      const history = await storage.getFamilyLocationHistory(userId);
+      const parsed = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        userIds: z.string().regex(/^\d+(,\d+)*$/).optional(),
+        resolution: z.enum(["raw", "5min", "hourly", "daily"]).default("hourly"),
+        limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).default(DEFAULT_HISTORY_PAGE_SIZE),
+        cursor: z.string().optional(),
+      }).safeParse(req.query);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid history query" });
+      }
+      
+      const { resolution, limit } = parsed.data;
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return res.status(400).json({ message: "History range must end after it starts" });
+      }
+      
+      const cursor = parsed.data.cursor ? decodeHistoryCursor(parsed.data.cursor) : undefined;
+      if (cursor === null) {
+        return res.status(400).json({ message: "Invalid history cursor" });
+      }
+      
+      console.log(`Fetching ${resolution} location history for user ${userId} from ${from.toISOString()} to ${to.toISOString()}`);
+      const { history, nextCursor } = await storage.getFamilyLocationHistory(userId, {
+        from,
+        to,
+        userIds: parsed.data.userIds?.split(',').map(Number),
+        resolution,
+        limit,
+        cursor,
+      });
       console.log('Location history result:', Object.keys(history).length, 'family members');
+      
+      if (nextCursor) {
+        res.set('X-Next-Cursor', encodeHistoryCursor(nextCursor));
+      }
       res.json(history);
     } catch (error) {
       console.error("Error fetching location history:", error);
@@ -355,11 +623,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download a user's location history as a GPX track, KML or GeoJSON, e.g. for an insurance claim.
+  // Defaults to the requester's own last 24 hours.
+  app.get('/api/locations/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const viewerId = req.user.id;
+      const parsed = z.object({
+        userId: z.coerce.number().int().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        format: z.enum(["gpx", "kml", "geojson"]).default("gpx"),
+      }).safeParse(req.query);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid export query" });
+      }
+      
+      const memberId = parsed.data.userId ?? viewerId;
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return res.status(400).json({ message: "Export range must end after it starts" });
+      }
+      if (to.getTime() - from.getTime() > MAX_EXPORT_RANGE_MS) {
+        return res.status(400).json({ message: "Export range can be at most one year" });
+      }
+      
+      if (!(await canViewLocationsOf(viewerId, memberId))) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      
+      const member = await storage.getUser(memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      
+      const memberName = [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email;
+      // Family never sees fixes from a sharing pause; the user's own export keeps them
+      const fixes = (await storage.getUserLocationsSince(memberId, from, to))
+        .filter(fix => memberId === viewerId || !fix.capturedWhilePaused);
+      const exported = exportLocations(parsed.data.format, `${memberName} ${from.toISOString().slice(0, 10)} to ${to.toISOString().slice(0, 10)}`, fixes);
+      console.log(`Exporting ${fixes.length} locations for user ${memberId} as ${parsed.data.format} for user ${viewerId}`);
+      
+      const fileName = `${memberName.replace(/[^\w-]+/g, '_')}-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.${exported.extension}`;
+      res.set('Content-Type', exported.contentType);
+      res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(exported.body);
+    } catch (error) {
+      console.error("Error exporting locations:", error);
+      res.status(500).json({ message: "Failed to export locations" });
+    }
+  });
+
+  // Import history from a file uploaded through /api/objects/upload. The format is told from the start of
+  // the file so an unreadable upload is refused immediately; the file is then streamed and inserted in
+  // the background while progress is pushed to the user as "importProgress" WebSocket events.
+  app.post('/api/locations/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = z.object({
+        uploadURL: z.string().min(1),
+        format: z.enum(["gpx", "geojson", "takeout"]).optional(),
+      }).safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: "uploadURL is required" });
+      }
+      
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.claimObjectEntity(parsed.data.uploadURL, userId.toString());
+      const [metadata] = await objectFile.getMetadata();
+      if (Number(metadata.size) > MAX_IMPORT_FILE_BYTES) {
+        return res.status(413).json({ message: "Import file is too large" });
+      }
+      
+      const [head] = await objectFile.download({ start: 0, end: FORMAT_SNIFF_BYTES - 1 });
+      const format = detectLocationFileFormat(head.toString("utf8"), parsed.data.format);
+      
+      const importId = randomUUID();
+      console.log(`Starting ${format.format} import ${importId} of ${metadata.size} bytes for user ${userId}`);
+      importLocations(userId, importId, readLocationFile(objectFile.createReadStream(), format));
+      
+      res.status(202).json({ importId });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded file not found" });
+      }
+      if (error instanceof LocationImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing locations:", error);
+      res.status(500).json({ message: "Failed to import locations" });
+    }
+  });
+
+  // Get a user's stays and trips for one local day, e.g. ?date=2024-05-01&timezone=America/Los_Angeles
+  app.get('/api/users/:id/timeline', isAuthenticated, async (req: any, res) => {
+    try {
+      const viewerId = req.user.id;
+      const memberId = parseInt(req.params.id);
+      const parsed = z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        timezone: timezoneSchema.default("UTC"),
+      }).safeParse(req.query);
+      
+      if (isNaN(memberId) || !parsed.success) {
+        return res.status(400).json({ message: "Invalid timeline query" });
+      }
+      
+      if (!(await canViewLocationsOf(viewerId, memberId))) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      
+      const { date, timezone } = parsed.data;
+      const { start, end } = getLocalDayBounds(date, timezone);
+      const segments = await storage.getTimelineSegments(memberId, start, end);
+      
+      // Resolve place names so the client can label stays and trips without another lookup
+      const places = await storage.getFamilyPlaces(memberId);
+      const placeNames = new Map(places.map(place => [place.id, place.name]));
+      const placeName = (placeId: number | null) => (placeId !== null && placeNames.get(placeId)) || null;
+      
+      res.json({
+        date,
+        timezone,
+        segments: segments.map(segment => ({
+          ...segment,
+          placeName: placeName(segment.placeId),
+          fromPlaceName: placeName(segment.fromPlaceId),
+          toPlaceName: placeName(segment.toPlaceId),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching timeline:", error);
+      res.status(500).json({ message: "Failed to fetch timeline" });
+    }
+  });
+
   // Clear geofence state for testing
   app.post('/api/geofence/clear', isAuthenticated, async (req: any, res) => {
     try {
       const { clearUserGeofenceState } = await import('./geofencing');
-      clearUserGeofenceState(req.user.id);
+      await clearUserGeofenceState(req.user.id);
       console.log('Cleared geofence state for user:', req.user.id);
       res.json({ message: 'Geofence state cleared' });
     } catch (error) {
@@ -599,7 +1004,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update place details (name, category, color)
+  // Update place details (name, category, color, geofence shape)
   app.patch('/api/places/:placeId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -611,6 +1016,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Place name is required" });
       }
       
+      const geofence = z.object({
+        radius: placeRadiusSchema.optional(),
+        boundary: placeBoundarySchema.nullable().optional(),
+      }).safeParse(req.body);
+      
+      if (!geofence.success) {
+        return res.status(400).json({ message: "Invalid geofence radius or boundary" });
+      }
+      
       // Check if place belongs to user or their family
       const places = await storage.getFamilyPlaces(userId);
       const place = places?.find(p => p.id === placeId);
@@ -620,7 +1034,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Update the place details
-      await storage.updatePlace(placeId, { name, category, color });
+      await storage.updatePlace(placeId, { name, category, color, ...geofence.data });
       
       console.log(`Updated place ${placeId} details`);
       res.json({ message: "Place updated successfully" });
@@ -664,12 +1078,274 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Place alert subscription routes (the current user's rules for a shared place)
+  app.get('/api/places/:id/subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const placeId = parseInt(req.params.id);
+      
+      const places = await storage.getFamilyPlaces(userId);
+      if (!places?.some(p => p.id === placeId)) {
+        return res.status(404).json({ message: "Place not found" });
+      }
+      
+      const subscriptions = await storage.getUserPlaceSubscriptions(userId, placeId);
+      res.json(subscriptions);
+    } catch (error) {
+      console.error("Error fetching place subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch place subscriptions" });
+    }
+  });
+
+  app.post('/api/places/:id/subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const placeId = parseInt(req.params.id);
+      
+      const parsed = insertPlaceSubscriptionSchema.refine(hasCompleteTimeWindow).safeParse({
+        ...req.body,
+        userId,
+        placeId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid subscription rule" });
+      }
+      
+      const places = await storage.getFamilyPlaces(userId);
+      if (!places?.some(p => p.id === placeId)) {
+        return res.status(404).json({ message: "Place not found" });
+      }
+      
+      // Rules can only target members of the subscriber's family
+      if (parsed.data.memberId) {
+        const familyMembers = await storage.getFamilyMembers(userId);
+        if (!familyMembers.some(member => member.id === parsed.data.memberId)) {
+          return res.status(400).json({ message: "Family member not found" });
+        }
+      }
+      
+      const subscription = await storage.createPlaceSubscription(parsed.data);
+      res.json(subscription);
+    } catch (error) {
+      console.error("Error creating place subscription:", error);
+      res.status(500).json({ message: "Failed to create place subscription" });
+    }
+  });
+
+  app.patch('/api/places/:id/subscriptions/:subscriptionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const placeId = parseInt(req.params.id);
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      
+      const parsed = insertPlaceSubscriptionSchema
+        .omit({ userId: true, placeId: true })
+        .partial()
+        .refine(hasCompleteTimeWindow)
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid subscription rule" });
+      }
+      
+      if (parsed.data.memberId) {
+        const familyMembers = await storage.getFamilyMembers(userId);
+        if (!familyMembers.some(member => member.id === parsed.data.memberId)) {
+          return res.status(400).json({ message: "Family member not found" });
+        }
+      }
+      
+      const subscription = await storage.updatePlaceSubscription(userId, placeId, subscriptionId, parsed.data);
+      if (!subscription) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      
+      res.json(subscription);
+    } catch (error) {
+      console.error("Error updating place subscription:", error);
+      res.status(500).json({ message: "Failed to update place subscription" });
+    }
+  });
+
+  app.delete('/api/places/:id/subscriptions/:subscriptionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const placeId = parseInt(req.params.id);
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      
+      await storage.deletePlaceSubscription(userId, placeId, subscriptionId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting place subscription:", error);
+      res.status(500).json({ message: "Failed to delete place subscription" });
+    }
+  });
+
+  // Schedule expectation routes ("should be at School by 8:30", "shouldn't leave before 15:00")
+  app.get('/api/expectations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const expectations = await storage.getUserExpectations(userId);
+      res.json(expectations);
+    } catch (error) {
+      console.error("Error fetching expectations:", error);
+      res.status(500).json({ message: "Failed to fetch expectations" });
+    }
+  });
+
+  app.post('/api/expectations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = insertPlaceExpectationSchema.safeParse({
+        ...req.body,
+        userId,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid expectation" });
+      }
+      
+      const familyMembers = await storage.getFamilyMembers(userId);
+      if (!familyMembers.some(member => member.id === parsed.data.memberId)) {
+        return res.status(400).json({ message: "Family member not found" });
+      }
+      
+      const places = await storage.getFamilyPlaces(userId);
+      if (!places?.some(p => p.id === parsed.data.placeId)) {
+        return res.status(404).json({ message: "Place not found" });
+      }
+      
+      const expectation = await storage.createExpectation(parsed.data);
+      res.json(expectation);
+    } catch (error) {
+      console.error("Error creating expectation:", error);
+      res.status(500).json({ message: "Failed to create expectation" });
+    }
+  });
+
+  app.patch('/api/expectations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const expectationId = parseInt(req.params.id);
+      
+      // The member and place are fixed once created; delete and recreate to change them
+      const parsed = insertPlaceExpectationSchema
+        .omit({ userId: true, memberId: true, placeId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid expectation" });
+      }
+      
+      const expectation = await storage.updateExpectation(userId, expectationId, parsed.data);
+      if (!expectation) {
+        return res.status(404).json({ message: "Expectation not found" });
+      }
+      
+      res.json(expectation);
+    } catch (error) {
+      console.error("Error updating expectation:", error);
+      res.status(500).json({ message: "Failed to update expectation" });
+    }
+  });
+
+  app.delete('/api/expectations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const expectationId = parseInt(req.params.id);
+      
+      await storage.deleteExpectation(userId, expectationId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting expectation:", error);
+      res.status(500).json({ message: "Failed to delete expectation" });
+    }
+  });
+
+  // Device alert routes ("Mia's phone is below 15%", "no location from Mia for 2 hours")
+  app.get('/api/device-alerts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const rules = await storage.getUserDeviceAlertRules(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching device alerts:", error);
+      res.status(500).json({ message: "Failed to fetch device alerts" });
+    }
+  });
+
+  app.post('/api/device-alerts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = insertDeviceAlertRuleSchema.safeParse({
+        ...req.body,
+        userId,
+      });
+      if (!parsed.success || !isValidAlertThreshold(parsed.data.kind, parsed.data.threshold)) {
+        return res.status(400).json({ message: "Invalid device alert" });
+      }
+      
+      const familyMembers = await storage.getFamilyMembers(userId);
+      if (!familyMembers.some(member => member.id === parsed.data.memberId)) {
+        return res.status(400).json({ message: "Family member not found" });
+      }
+      
+      const rule = await storage.saveDeviceAlertRule(parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error saving device alert:", error);
+      res.status(500).json({ message: "Failed to save device alert" });
+    }
+  });
+
+  app.patch('/api/device-alerts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const ruleId = parseInt(req.params.id);
+      
+      // The member and kind are fixed once created; delete and recreate to change them
+      const parsed = insertDeviceAlertRuleSchema
+        .pick({ threshold: true, enabled: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid device alert" });
+      }
+      
+      const existing = (await storage.getUserDeviceAlertRules(userId)).find(rule => rule.id === ruleId);
+      if (!existing) {
+        return res.status(404).json({ message: "Device alert not found" });
+      }
+      if (parsed.data.threshold !== undefined && !isValidAlertThreshold(existing.kind, parsed.data.threshold)) {
+        return res.status(400).json({ message: "Invalid device alert" });
+      }
+      
+      const rule = await storage.updateDeviceAlertRule(userId, ruleId, parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating device alert:", error);
+      res.status(500).json({ message: "Failed to update device alert" });
+    }
+  });
+
+  app.delete('/api/device-alerts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const ruleId = parseInt(req.params.id);
+      
+      await storage.deleteDeviceAlertRule(userId, ruleId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting device alert:", error);
+      res.status(500).json({ message: "Failed to delete device alert" });
+    }
+  });
+
   // Hourly location logging control routes
   app.post('/api/location-logging/start', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      locationLogger.startHourlyLogging(userId.toString());
-      res.json({ message: "Hourly location logging started", success: true });
+      await storage.updateUserSettings(userId, { autoLoggingEnabled: true });
+      await locationLogger.enable(userId);
+      res.json({ message: "Automatic location logging started", success: true });
     } catch (error) {
       console.error("Error starting location logging:", error);
       res.status(500).json({ message: "Failed to start location logging" });
@@ -679,8 +1355,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/location-logging/stop', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      locationLogger.stopHourlyLogging(userId.toString());
-      res.json({ message: "Hourly location logging stopped", success: true });
+      // Remembered on the user so the startup backfill doesn't schedule it again
+      await storage.updateUserSettings(userId, { autoLoggingEnabled: false });
+      await locationLogger.disable(userId);
+      res.json({ message: "Automatic location logging stopped", success: true });
     } catch (error) {
       console.error("Error stopping location logging:", error);
       res.status(500).json({ message: "Failed to stop location logging" });
@@ -689,8 +1367,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/location-logging/status', isAuthenticated, async (req: any, res) => {
     try {
-      const activeSessions = locationLogger.getActiveSessions();
-      res.json({ activeSessions });
+      const status = await locationLogger.getStatus(req.user.id);
+      res.json(status);
     } catch (error) {
       console.error("Error getting logging status:", error);
       res.status(500).json({ message: "Failed to get logging status" });
@@ -702,7 +1380,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.id;
       const { clearUserGeofenceState } = await import('./geofencing');
-      clearUserGeofenceState(userId);
+      await clearUserGeofenceState(userId);
       console.log(`Cleared geofence state for user ${userId}`);
       res.json({ message: "Geofence state cleared successfully" });
     } catch (error) {
@@ -720,18 +1398,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Broadcast test notification
-      if ((global as any).broadcastNotification) {
-        (global as any).broadcastNotification({
-          type: 'geofence',
-          userId,
-          userName: user.firstName || user.email,
-          placeName: 'Test Location',
-          action: 'entered',
-          message: `${user.firstName || user.email} has entered Test Location`,
-          timestamp: new Date().toISOString()
-        });
-      }
+      // Broadcast test notification to the requesting user only
+      realtimeEvents.publish('geofence', {
+        userId,
+        userName: user.firstName || user.email,
+        placeName: 'Test Location',
+        action: 'entered',
+        message: `${user.firstName || user.email} has entered Test Location`,
+        recipientUserIds: [userId],
+        timestamp: new Date().toISOString()
+      });
 
       res.json({ message: "Test notification sent" });
     } catch (error) {
@@ -828,86 +1504,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Evaluate schedule expectations in the background
+  expectationScheduler.start();
+  
+  // Watch family members' battery levels and last fixes for device alerts
+  deviceAlertChecker.start();
+  
+  // Enforce location history retention settings
+  locationRetentionJob.start();
+  
+  // Thin out old location history
+  locationCompactionJob.start();
+  
+  // Run durable scheduled jobs (automatic location logging)
+  await locationLogger.scheduleMissingJobs();
+  jobScheduler.start();
+
   const httpServer = createServer(app);
 
   // WebSocket server for real-time location updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  const clients = new Map<string, WebSocket>();
-
-  wss.on('connection', (ws, req) => {
-    console.log('WebSocket client connected');
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === 'auth' && data.userId) {
-          clients.set(data.userId.toString(), ws);
-          console.log(`User ${data.userId} registered for WebSocket updates. Total clients: ${clients.size}`);
-          
-          // Auto-start hourly location logging for users with location history enabled
-          storage.getUser(parseInt(data.userId)).then(user => {
-            if (user && user.locationHistoryEnabled) {
-              locationLogger.startHourlyLogging(data.userId.toString());
-            }
-          }).catch(error => {
-            console.error(`Error checking user settings for ${data.userId}:`, error);
-          });
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      // Remove client from map and stop location logging
-      clients.forEach((client, userId) => {
-        if (client === ws) {
-          clients.delete(userId);
-          console.log(`User ${userId} disconnected. Total clients: ${clients.size}`);
-          // Stop hourly logging when user disconnects
-          locationLogger.stopHourlyLogging(userId);
-        }
-      });
-      console.log('WebSocket client disconnected');
-    });
-
-    ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-    });
-  });
-
-  // Function to broadcast location updates
-  function broadcastLocationUpdate(userId: string, location: any) {
-    // Get family members of this user and send update
-    storage.getFamilyMembers(parseInt(userId)).then(familyMembers => {
-      familyMembers.forEach(member => {
-        const client = clients.get(member.id.toString());
-        if (client && client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'locationUpdate',
-            userId,
-            location,
-          }));
-        }
-      });
-    });
-  }
-
-  // Function to broadcast notifications (for geofencing)
-  (global as any).broadcastNotification = function(notification: any) {
-    console.log(`Broadcasting notification to ${clients.size} connected clients:`, notification);
-    clients.forEach((client, userId) => {
-      if (client.readyState === WebSocket.OPEN) {
-        const message = {
-          type: 'geofence',
-          ...notification,
-        };
-        console.log(`Sending notification to user ${userId}:`, message);
-        client.send(JSON.stringify(message));
-      }
-    });
-  };
+  setupRealtime(httpServer, sessionMiddleware);
 
   return httpServer;
 }
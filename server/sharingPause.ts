@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { realtimeEvents } from "./realtimeEvents";
+import { jobScheduler } from "./jobScheduler";
+import type { Place, ScheduledJob, SharingPausePeriod, User } from "@shared/schema";
+
+export const SHARING_RESUME_JOB = "sharing_resume";
+
+export type ResumeReason = 'manual' | 'expired' | 'arrived';
+
+type SharingFields = Pick<User, 'locationSharingEnabled' | 'sharingPausedUntil'>;
+
+// A pause ends at sharingPausedUntil even if the resume job hasn't run yet
+export function isSharingPaused(user: SharingFields, now = new Date()): boolean {
+  return !!user.sharingPausedUntil && user.sharingPausedUntil.getTime() > now.getTime();
+}
+
+// Whether a fix captured at `capturedAt` falls inside one of the user's pauses (see storage.getSharingPauses)
+export function isCapturedWhilePaused(pauses: SharingPausePeriod[], capturedAt: Date): boolean {
+  const at = capturedAt.getTime();
+  return pauses.some(pause => pause.startedAt.getTime() <= at && at < pause.endsAt.getTime());
+}
+
+// Whether family members may currently see this user's location
+export function isSharingLocation(user: SharingFields, now = new Date()): boolean {
+  return !!user.locationSharingEnabled && !isSharingPaused(user, now);
+}
+
+// Temporary "pause sharing" on top of the locationSharingEnabled toggle. Each pause has an end time, kept as
+// a durable "sharing_resume" job, and optionally a place whose arrival ends it early. Family members are
+// told when a pause starts and ends. Every pause is also recorded as a period, so fixes uploaded late are
+// still kept private when they were captured during one.
+class SharingPause {
+  async pause(user: User, until: Date, resumePlace: Place | null): Promise<User> {
+    const wasPaused = isSharingPaused(user);
+    const updated = await storage.updateUserSettings(user.id, {
+      sharingPausedUntil: until,
+      sharingResumePlaceId: resumePlace?.id ?? null,
+    });
+    await storage.recordSharingPause(user.id, until);
+    await storage.scheduleJob(SHARING_RESUME_JOB, user.id, until);
+    log(`Paused location sharing for user ${user.id} until ${until.toISOString()}${resumePlace ? ` or arrival at place ${resumePlace.id}` : ''}`);
+
+    // Changing the end of an existing pause isn't news to the family
+    if (!wasPaused) {
+      const message = resumePlace
+        ? `${this.userName(user)} paused location sharing until they arrive at ${resumePlace.name}`
+        : `${this.userName(user)} paused location sharing`;
+      await this.notifyFamily(user.id, 'sharing_paused', 'Sharing Paused', message, {
+        pausedUntil: until.toISOString(),
+        resumePlaceId: resumePlace?.id ?? null,
+      });
+    }
+
+    return updated;
+  }
+
+  // Returns the updated user, or undefined when sharing wasn't paused
+  async resume(userId: number, reason: ResumeReason, place?: Place): Promise<User | undefined> {
+    const user = await storage.clearSharingPause(userId);
+    await storage.endSharingPause(userId, new Date());
+    await storage.deleteScheduledJob(SHARING_RESUME_JOB, userId);
+    if (!user) {
+      return undefined;
+    }
+
+    // Sharing was switched off during the pause, so there is nothing to resume or tell the family about
+    if (!user.locationSharingEnabled) {
+      log(`Cleared sharing pause for user ${userId} - sharing is off`);
+      return user;
+    }
+
+    log(`Resumed location sharing for user ${userId} (${reason})`);
+
+    const message = reason === 'arrived' && place
+      ? `${this.userName(user)} resumed location sharing on arriving at ${place.name}`
+      : `${this.userName(user)} resumed location sharing`;
+    await this.notifyFamily(userId, 'sharing_resumed', 'Sharing Resumed', message, { reason });
+
+    // Put the user back on their family's maps straight away rather than at their next fix
+    const latestLocation = await storage.getUserLatestLocation(userId);
+    if (latestLocation) {
+      realtimeEvents.publish('locationUpdate', { userId, location: latestLocation });
+    }
+
+    return user;
+  }
+
+  // Job handler: end the pause once its time is up, or follow it if the pause was extended
+  async run(job: ScheduledJob): Promise<Date | null> {
+    const user = job.userId !== null ? await storage.getUser(job.userId) : undefined;
+    if (!user?.sharingPausedUntil) {
+      return null;
+    }
+    if (user.sharingPausedUntil.getTime() > Date.now()) {
+      return user.sharingPausedUntil;
+    }
+
+    await this.resume(user.id, 'expired');
+    return null;
+  }
+
+  private async notifyFamily(userId: number, type: string, title: string, message: string, data: Record<string, unknown>) {
+    const viewerIds = await storage.getFamilyViewerIds(userId);
+    for (const viewerId of viewerIds) {
+      try {
+        await storage.createNotification({
+          userId: viewerId,
+          type,
+          title,
+          message,
+          data: { userId, ...data },
+          isRead: false,
+        });
+
+        realtimeEvents.publish('notification', {
+          userId: viewerId,
+          notificationType: type,
+          message,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error(`Failed to create ${type} notification for user ${viewerId}:`, error);
+      }
+    }
+  }
+
+  private userName(user: User) {
+    return user.firstName || user.email;
+  }
+}
+
+export const sharingPause = new SharingPause();
+
+jobScheduler.register(SHARING_RESUME_JOB, (job) => sharingPause.run(job));
@@ -5,12 +5,32 @@ import {
   familyConnections,
   invitationCodes,
   notifications,
+  geofenceStates,
+  placeSubscriptions,
+  placeExpectations,
+  deviceAlertRules,
+  timelineSegments,
+  scheduledJobs,
+  rateLimitBuckets,
+  sharingPauses,
   type User,
   type InsertUser,
   type Location,
   type InsertLocation,
   type Place,
   type InsertPlace,
+  type PlaceBoundary,
+  type GeofenceState,
+  type PlaceSubscription,
+  type InsertPlaceSubscription,
+  type PlaceExpectation,
+  type InsertPlaceExpectation,
+  type DeviceAlertRule,
+  type InsertDeviceAlertRule,
+  type TimelineSegment,
+  type InsertTimelineSegment,
+  type ScheduledJob,
+  type SharingPausePeriod,
   type FamilyConnection,
   type InsertFamilyConnection,
   type InvitationCode,
@@ -19,7 +39,68 @@ import {
   type InsertNotification,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, or, sql, inArray } from "drizzle-orm";
+import { eq, ne, and, desc, or, sql, inArray, gt, gte, lt, lte, isNull, isNotNull, exists, type SQL } from "drizzle-orm";
+
+export type PlaceUpdate = {
+  name?: string;
+  category?: string;
+  color?: string;
+  radius?: number;
+  boundary?: PlaceBoundary | null;
+};
+
+// Sampling resolution for location history; raw returns every stored fix
+export type HistoryResolution = "raw" | "5min" | "hourly" | "daily";
+
+const HISTORY_BUCKET_SECONDS: Record<Exclude<HistoryResolution, "raw">, number> = {
+  "5min": 5 * 60,
+  hourly: 60 * 60,
+  daily: 24 * 60 * 60, // UTC days
+};
+
+// Position after the last row of a history page, in (timestamp, id) descending order
+export type LocationHistoryCursor = { timestamp: string; id: number };
+
+export type LocationHistoryQuery = {
+  from: Date;
+  to: Date;
+  userIds?: number[];
+  resolution: HistoryResolution;
+  limit: number;
+  cursor?: LocationHistoryCursor;
+};
+
+export type FamilyLocationHistory = Record<string, { user: User; locations: Array<Location & { user: User }> }>;
+
+export type LocationHistoryPage = {
+  history: FamilyLocationHistory;
+  nextCursor: LocationHistoryCursor | null;
+};
+
+// Rows the automatic logger copies from a user's latest fix. They fill in history but say nothing about
+// whether the device is still reporting, so they never count as a user's latest location.
+export const LOGGED_LOCATION_TYPE = "automatic_hourly";
+
+// Correlated subquery for the id of a user's most recent trusted fix (the one shown on the map)
+function latestLocationIdFor(userIdColumn: typeof locations.userId): SQL {
+  return sql`(
+    select latest.id from ${locations} as latest
+    where latest.user_id = ${userIdColumn} and not latest.suspect and latest.type <> ${LOGGED_LOCATION_TYPE}
+    order by latest.timestamp desc nulls last, latest.id desc
+    limit 1
+  )`;
+}
+
+// A fix as the server stores it: the client's fields plus the sanity filter's verdict and the sharing state
+export type NewLocation = InsertLocation & { suspect?: boolean; suspectReason?: string | null; capturedWhilePaused?: boolean };
+
+export type LocationCompaction = {
+  deleteIds: number[];
+  compactedIds: number[]; // Kept as-is but re-typed "compacted"
+  inserts: Array<NewLocation & { timestamp: Date }>;
+};
+
+export type GeofencePendingUpdate = Pick<GeofenceState, 'pendingInside' | 'pendingSince' | 'pendingFixCount'>;
 
 export interface IStorage {
   // User operations
@@ -28,15 +109,28 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserSettings(userId: number, settings: Partial<User>): Promise<User>;
   updateUserProfile(userId: number, profile: Partial<User>): Promise<User>;
+  clearSharingPause(userId: number): Promise<User | undefined>;
+  recordSharingPause(userId: number, endsAt: Date): Promise<SharingPausePeriod>;
+  endSharingPause(userId: number, endedAt: Date): Promise<void>;
+  getSharingPauses(userId: number, from: Date, to: Date): Promise<SharingPausePeriod[]>;
   
   // Location operations
-  saveLocation(location: InsertLocation): Promise<Location>;
-  getUserLatestLocation(userId: number): Promise<Location | undefined>;
+  saveLocation(location: NewLocation): Promise<Location>;
+  saveLocationsWithTimestamps(locations: Array<NewLocation & { timestamp: Date }>): Promise<Location[]>;
+  getUserLatestLocation(userId: number, includeSuspect?: boolean): Promise<Location | undefined>;
+  getUserLocationsSince(userId: number, since: Date | null, until?: Date): Promise<Location[]>;
+  deleteUserLocations(userId: number, keepLatest?: boolean): Promise<number>;
+  markLocationGeofenceTriggered(locationId: number): Promise<void>;
+  updateLocationAddress(locationId: number, address: string): Promise<Location | undefined>;
+  getCompactionCandidates(olderThan: Date, limit: number): Promise<Array<{ userId: number; day: Date }>>;
+  compactLocations(compaction: LocationCompaction): Promise<void>;
+  purgeExpiredHistory(userId?: number): Promise<{ locations: number; segments: number }>;
   getFamilyMembersLocations(userId: number): Promise<Array<Location & { user: User }>>;
-  getFamilyLocationHistory(userId: number): Promise<Record<string, { user: User; locations: Array<Location & { user: User }> }>>;
+  getFamilyLocationHistory(userId: number, query: LocationHistoryQuery): Promise<LocationHistoryPage>;
   
   // Family connection operations
   getFamilyMembers(userId: number): Promise<Array<User>>;
+  getFamilyViewerIds(userId: number): Promise<number[]>;
   getPendingInvitations(userId: number): Promise<Array<FamilyConnection & { user: User }>>;
   addFamilyMember(connection: InsertFamilyConnection): Promise<FamilyConnection>;
   acceptFamilyConnection(userId: number, familyMemberId: number): Promise<FamilyConnection>;
@@ -47,7 +141,56 @@ export interface IStorage {
   savePlace(place: InsertPlace): Promise<Place>;
   deletePlace(userId: number, placeId: number): Promise<void>;
   updatePlaceLocation(placeId: number, latitude: number, longitude: number): Promise<void>;
-  updatePlace(placeId: number, updates: { name?: string; category?: string; color?: string }): Promise<void>;
+  updatePlace(placeId: number, updates: PlaceUpdate): Promise<void>;
+  
+  // Geofence state operations
+  getUserGeofenceStates(userId: number): Promise<GeofenceState[]>;
+  recordGeofenceTransition(userId: number, placeId: number, isInside: boolean, transitionAt: Date): Promise<boolean>;
+  updateGeofencePending(userId: number, placeId: number, pending: GeofencePendingUpdate, observedAt: Date): Promise<void>;
+  clearUserGeofenceStates(userId: number): Promise<void>;
+  
+  // Place subscription operations
+  getPlaceSubscriptions(placeId: number): Promise<PlaceSubscription[]>;
+  getUserPlaceSubscriptions(userId: number, placeId: number): Promise<PlaceSubscription[]>;
+  createPlaceSubscription(subscription: InsertPlaceSubscription): Promise<PlaceSubscription>;
+  updatePlaceSubscription(userId: number, placeId: number, subscriptionId: number, updates: Partial<InsertPlaceSubscription>): Promise<PlaceSubscription | undefined>;
+  deletePlaceSubscription(userId: number, placeId: number, subscriptionId: number): Promise<void>;
+  
+  // Place expectation operations
+  getEnabledExpectations(): Promise<Array<PlaceExpectation & { place: Place; member: User }>>;
+  getUserExpectations(userId: number): Promise<PlaceExpectation[]>;
+  createExpectation(expectation: InsertPlaceExpectation): Promise<PlaceExpectation>;
+  updateExpectation(userId: number, expectationId: number, updates: Partial<InsertPlaceExpectation>): Promise<PlaceExpectation | undefined>;
+  markExpectationSeenInside(expectationId: number, localDate: string): Promise<void>;
+  settleExpectation(expectationId: number, localDate: string): Promise<boolean>;
+  deleteExpectation(userId: number, expectationId: number): Promise<void>;
+  
+  // Device alert rule operations
+  getEnabledDeviceAlertRules(): Promise<Array<DeviceAlertRule & { member: User }>>;
+  getUserDeviceAlertRules(userId: number): Promise<DeviceAlertRule[]>;
+  saveDeviceAlertRule(rule: InsertDeviceAlertRule): Promise<DeviceAlertRule>;
+  updateDeviceAlertRule(userId: number, ruleId: number, updates: Partial<InsertDeviceAlertRule>): Promise<DeviceAlertRule | undefined>;
+  startDeviceAlertEpisode(ruleId: number): Promise<boolean>;
+  endDeviceAlertEpisode(ruleId: number): Promise<void>;
+  deleteDeviceAlertRule(userId: number, ruleId: number): Promise<void>;
+  
+  // Timeline operations
+  getLatestTimelineSegment(userId: number, startedBefore?: Date, kind?: 'stay' | 'trip'): Promise<TimelineSegment | undefined>;
+  replaceTimelineSegments(userId: number, from: Date | null, segments: InsertTimelineSegment[]): Promise<void>;
+  updateTimelineSegment(segmentId: number, updates: Partial<InsertTimelineSegment>): Promise<void>;
+  getTimelineSegments(userId: number, start: Date, end: Date): Promise<TimelineSegment[]>;
+  
+  // Scheduled job operations
+  scheduleJob(type: string, userId: number | null, runAt: Date): Promise<ScheduledJob>;
+  getUsersWithoutScheduledJob(type: string): Promise<User[]>;
+  getScheduledJob(type: string, userId: number | null): Promise<ScheduledJob | undefined>;
+  deleteScheduledJob(type: string, userId: number | null): Promise<void>;
+  claimDueJobs(workerId: string, leaseMs: number, limit: number): Promise<ScheduledJob[]>;
+  completeScheduledJob(jobId: number, workerId: string, nextRunAt: Date | null): Promise<void>;
+  failScheduledJob(jobId: number, workerId: string, error: string, retryAt: Date): Promise<void>;
+  
+  // Rate limit operations
+  takeRateLimitToken(name: string, ratePerSecond: number, burst: number): Promise<boolean>;
   
   // Invitation code operations
   createInvitationCode(invitation: InsertInvitationCode): Promise<InvitationCode>;
@@ -92,6 +235,62 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Returns undefined when sharing wasn't paused, e.g. another instance already resumed it
+  async clearSharingPause(userId: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ sharingPausedUntil: null, sharingResumePlaceId: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(users.id, userId),
+          isNotNull(users.sharingPausedUntil)
+        )
+      )
+      .returning();
+    return user;
+  }
+
+  // Start a pause, or move the end of the one already running
+  async recordSharingPause(userId: number, endsAt: Date): Promise<SharingPausePeriod> {
+    const now = new Date();
+    const [running] = await db
+      .update(sharingPauses)
+      .set({ endsAt })
+      .where(and(eq(sharingPauses.userId, userId), gt(sharingPauses.endsAt, now)))
+      .returning();
+    if (running) {
+      return running;
+    }
+    const [pause] = await db
+      .insert(sharingPauses)
+      .values({ userId, startedAt: now, endsAt })
+      .returning();
+    return pause;
+  }
+
+  // Cut a running pause short
+  async endSharingPause(userId: number, endedAt: Date): Promise<void> {
+    await db
+      .update(sharingPauses)
+      .set({ endsAt: endedAt })
+      .where(and(eq(sharingPauses.userId, userId), gt(sharingPauses.endsAt, endedAt)));
+  }
+
+  // Pauses overlapping [from, to], oldest first
+  async getSharingPauses(userId: number, from: Date, to: Date): Promise<SharingPausePeriod[]> {
+    return await db
+      .select()
+      .from(sharingPauses)
+      .where(
+        and(
+          eq(sharingPauses.userId, userId),
+          lte(sharingPauses.startedAt, to),
+          gt(sharingPauses.endsAt, from)
+        )
+      )
+      .orderBy(sharingPauses.startedAt);
+  }
+
   async updateUserProfile(userId: number, profile: Partial<User>): Promise<User> {
     const updateData: any = { ...profile, updatedAt: new Date() };
     
@@ -110,7 +309,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Location operations
-  async saveLocation(location: InsertLocation): Promise<Location> {
+  async saveLocation(location: NewLocation): Promise<Location> {
     const [savedLocation] = await db
       .insert(locations)
       .values(location)
@@ -118,16 +317,151 @@ export class DatabaseStorage implements IStorage {
     return savedLocation;
   }
 
-  async getUserLatestLocation(userId: number): Promise<Location | undefined> {
+  // Bulk insert of fixes that keep their original capture times (e.g. imported history)
+  async saveLocationsWithTimestamps(rows: Array<NewLocation & { timestamp: Date }>): Promise<Location[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(locations)
+      .values(rows)
+      .returning();
+  }
+
+  // Latest fix the device reported, by capture time; suspect fixes are skipped unless asked for
+  async getUserLatestLocation(userId: number, includeSuspect = false): Promise<Location | undefined> {
     const [location] = await db
       .select()
       .from(locations)
-      .where(eq(locations.userId, userId))
-      .orderBy(desc(locations.timestamp))
+      .where(
+        and(
+          eq(locations.userId, userId),
+          ne(locations.type, LOGGED_LOCATION_TYPE),
+          includeSuspect ? undefined : eq(locations.suspect, false)
+        )
+      )
+      .orderBy(sql`${locations.timestamp} desc nulls last`, desc(locations.id))
       .limit(1);
     return location;
   }
 
+  // A user's fixes in chronological order, from `since` onward (or all of them when null) and before `until`
+  async getUserLocationsSince(userId: number, since: Date | null, until?: Date): Promise<Location[]> {
+    return await db
+      .select()
+      .from(locations)
+      .where(
+        and(
+          eq(locations.userId, userId),
+          since ? gte(locations.timestamp, since) : undefined,
+          until ? lt(locations.timestamp, until) : undefined
+        )
+      )
+      .orderBy(locations.timestamp, locations.id);
+  }
+
+  // Delete a user's location history and the timeline built from it, optionally sparing their latest fix
+  async deleteUserLocations(userId: number, keepLatest = false): Promise<number> {
+    const deleted = await db
+      .delete(locations)
+      .where(
+        and(
+          eq(locations.userId, userId),
+          keepLatest ? sql`${locations.id} <> ${latestLocationIdFor(locations.userId)}` : undefined
+        )
+      );
+    await db.delete(timelineSegments).where(eq(timelineSegments.userId, userId));
+    return deleted.rowCount ?? 0;
+  }
+
+  // Enforce retention settings (for one user, or everyone): drop fixes older than the user's retention
+  // period and, when history is off, all but the latest fix. The latest fix is always kept so family
+  // members still see where someone was last seen.
+  async purgeExpiredHistory(userId?: number): Promise<{ locations: number; segments: number }> {
+    const isExpired = (ownerId: SQL, at: SQL) => sql`exists (
+      select 1 from ${users}
+      where ${users.id} = ${ownerId}
+        and (
+          ${users.locationHistoryEnabled} = false
+          or (${users.locationRetentionDays} is not null
+            and ${at} < (now() at time zone 'utc') - ${users.locationRetentionDays} * interval '1 day')
+        )
+    )`;
+
+    const deletedLocations = await db
+      .delete(locations)
+      .where(
+        and(
+          userId !== undefined ? eq(locations.userId, userId) : undefined,
+          isExpired(sql`${locations.userId}`, sql`${locations.timestamp}`),
+          sql`${locations.id} <> ${latestLocationIdFor(locations.userId)}`
+        )
+      );
+
+    const deletedSegments = await db
+      .delete(timelineSegments)
+      .where(
+        and(
+          userId !== undefined ? eq(timelineSegments.userId, userId) : undefined,
+          isExpired(sql`${timelineSegments.userId}`, sql`${timelineSegments.endedAt}`)
+        )
+      );
+
+    return { locations: deletedLocations.rowCount ?? 0, segments: deletedSegments.rowCount ?? 0 };
+  }
+
+  async markLocationGeofenceTriggered(locationId: number): Promise<void> {
+    await db
+      .update(locations)
+      .set({ geofenceTriggered: true })
+      .where(eq(locations.id, locationId));
+  }
+
+  async updateLocationAddress(locationId: number, address: string): Promise<Location | undefined> {
+    const [location] = await db
+      .update(locations)
+      .set({ address })
+      .where(eq(locations.id, locationId))
+      .returning();
+    return location;
+  }
+
+  // UTC days (per user) before the cutoff that still hold raw fixes eligible for compaction, oldest first
+  async getCompactionCandidates(olderThan: Date, limit: number): Promise<Array<{ userId: number; day: Date }>> {
+    const day = sql<Date>`date_trunc('day', ${locations.timestamp})`.mapWith(locations.timestamp);
+    return await db
+      .selectDistinct({ userId: locations.userId, day })
+      .from(locations)
+      .where(
+        and(
+          lt(locations.timestamp, olderThan),
+          sql`${locations.type} <> 'compacted'`,
+          eq(locations.geofenceTriggered, false)
+        )
+      )
+      .orderBy(day, locations.userId)
+      .limit(limit);
+  }
+
+  // Apply one compaction pass atomically: drop the replaced fixes, mark the surviving track points and
+  // insert the stay centroids
+  async compactLocations({ deleteIds, compactedIds, inserts }: LocationCompaction): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (deleteIds.length > 0) {
+        await tx.delete(locations).where(inArray(locations.id, deleteIds));
+      }
+      if (compactedIds.length > 0) {
+        await tx
+          .update(locations)
+          .set({ type: "compacted" })
+          .where(inArray(locations.id, compactedIds));
+      }
+      if (inserts.length > 0) {
+        await tx.insert(locations).values(inserts);
+      }
+    });
+  }
+
   async getUserPreviousLocation(userId: number): Promise<Location | undefined> {
     const [location] = await db
       .select()
@@ -173,9 +507,21 @@ export class DatabaseStorage implements IStorage {
         latitude: locations.latitude,
         longitude: locations.longitude,
         accuracy: locations.accuracy,
+        speed: locations.speed,
+        heading: locations.heading,
+        altitude: locations.altitude,
+        altitudeAccuracy: locations.altitudeAccuracy,
+        batteryLevel: locations.batteryLevel,
+        isCharging: locations.isCharging,
+        source: locations.source,
         address: locations.address,
         type: locations.type,
+        geofenceTriggered: locations.geofenceTriggered,
+        suspect: locations.suspect,
+        suspectReason: locations.suspectReason,
+        capturedWhilePaused: locations.capturedWhilePaused,
         timestamp: locations.timestamp,
+        receivedAt: locations.receivedAt,
         user: users,
       })
       .from(locations)
@@ -187,8 +533,15 @@ export class DatabaseStorage implements IStorage {
           eq(familyConnections.status, "accepted")
         )
       )
-      .where(eq(users.locationSharingEnabled, true))
-      .orderBy(desc(locations.timestamp));
+      .where(
+        and(
+          eq(users.locationSharingEnabled, true),
+          or(isNull(users.sharingPausedUntil), lte(users.sharingPausedUntil, new Date())),
+          eq(locations.suspect, false),
+          ne(locations.type, LOGGED_LOCATION_TYPE)
+        )
+      )
+      .orderBy(sql`${locations.timestamp} desc nulls last`, desc(locations.id));
 
     // Get only the latest location for each family member
     const latestLocations = new Map();
@@ -201,9 +554,48 @@ export class DatabaseStorage implements IStorage {
     return Array.from(latestLocations.values());
   }
 
-  async getFamilyLocationHistory(userId: number): Promise<Record<string, { user: User; locations: Array<Location & { user: User }> }>> {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    
+  async getFamilyLocationHistory(userId: number, query: LocationHistoryQuery): Promise<LocationHistoryPage> {
+    // Only accepted family members who share their location (and haven't paused it), narrowed to the requested ones
+    const visibleMembers = await db
+      .select({ id: users.id })
+      .from(familyConnections)
+      .innerJoin(users, eq(familyConnections.familyMemberId, users.id))
+      .where(
+        and(
+          eq(familyConnections.userId, userId),
+          eq(familyConnections.status, "accepted"),
+          eq(users.locationSharingEnabled, true),
+          or(isNull(users.sharingPausedUntil), lte(users.sharingPausedUntil, new Date())),
+          query.userIds ? inArray(users.id, query.userIds) : undefined
+        )
+      );
+    const memberIds = visibleMembers.map(member => member.id);
+    if (memberIds.length === 0) {
+      return { history: {}, nextCursor: null };
+    }
+
+    // Fixes from a pause stay private even after sharing resumes
+    const inRange = and(
+      inArray(locations.userId, memberIds),
+      eq(locations.capturedWhilePaused, false),
+      gte(locations.timestamp, query.from),
+      lt(locations.timestamp, query.to)
+    );
+
+    // Sampled resolutions keep each member's latest fix per time bucket
+    let selected = inRange;
+    if (query.resolution !== "raw") {
+      // Inlined rather than bound: DISTINCT ON must match the ORDER BY expression exactly, parameters included
+      const bucketSeconds = sql.raw(HISTORY_BUCKET_SECONDS[query.resolution].toString());
+      const bucket = sql`floor(extract(epoch from ${locations.timestamp}) / ${bucketSeconds})`;
+      const sampled = db
+        .selectDistinctOn([locations.userId, bucket], { id: locations.id })
+        .from(locations)
+        .where(inRange)
+        .orderBy(locations.userId, bucket, desc(locations.timestamp), desc(locations.id));
+      selected = inArray(locations.id, sampled);
+    }
+
     const result = await db
       .select({
         id: locations.id,
@@ -211,32 +603,49 @@ export class DatabaseStorage implements IStorage {
         latitude: locations.latitude,
         longitude: locations.longitude,
         accuracy: locations.accuracy,
+        speed: locations.speed,
+        heading: locations.heading,
+        altitude: locations.altitude,
+        altitudeAccuracy: locations.altitudeAccuracy,
+        batteryLevel: locations.batteryLevel,
+        isCharging: locations.isCharging,
+        source: locations.source,
         address: locations.address,
         type: locations.type,
+        geofenceTriggered: locations.geofenceTriggered,
+        suspect: locations.suspect,
+        suspectReason: locations.suspectReason,
+        capturedWhilePaused: locations.capturedWhilePaused,
         timestamp: locations.timestamp,
+        receivedAt: locations.receivedAt,
+        // Full-precision copy of the timestamp; JS dates drop microseconds, which would make the cursor skip rows
+        cursorTimestamp: sql<string>`to_char(${locations.timestamp}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`,
         user: users,
       })
       .from(locations)
       .innerJoin(users, eq(locations.userId, users.id))
-      .innerJoin(familyConnections, 
-        and(
-          eq(familyConnections.familyMemberId, locations.userId),
-          eq(familyConnections.userId, userId),
-          eq(familyConnections.status, "accepted")
-        )
-      )
       .where(
         and(
-          eq(users.locationSharingEnabled, true),
-          sql`${locations.timestamp} >= ${twentyFourHoursAgo}`
+          selected,
+          query.cursor
+            ? sql`(${locations.timestamp}, ${locations.id}) < (${query.cursor.timestamp}::timestamp, ${query.cursor.id})`
+            : undefined
         )
       )
-      .orderBy(desc(locations.timestamp));
+      .orderBy(desc(locations.timestamp), desc(locations.id))
+      .limit(query.limit + 1);
+
+    // The extra row only tells us whether another page exists
+    const page = result.slice(0, query.limit);
+    const lastRow = page[page.length - 1];
+    const nextCursor = result.length > query.limit
+      ? { timestamp: lastRow.cursorTimestamp, id: lastRow.id }
+      : null;
 
     // Group locations by user ID
-    const groupedHistory: Record<string, { user: User; locations: Array<Location & { user: User }> }> = {};
+    const groupedHistory: FamilyLocationHistory = {};
     
-    result.forEach(item => {
+    page.forEach(({ cursorTimestamp, ...item }) => {
       const userIdStr = item.userId.toString();
       if (!groupedHistory[userIdStr]) {
         groupedHistory[userIdStr] = {
@@ -247,28 +656,7 @@ export class DatabaseStorage implements IStorage {
       groupedHistory[userIdStr].locations.push(item);
     });
 
-    // Filter to include only hourly locations (approximately)
-    Object.keys(groupedHistory).forEach(userIdStr => {
-      const userHistory = groupedHistory[userIdStr];
-      const filteredLocations: Array<Location & { user: User }> = [];
-      let lastIncludedTime = 0;
-      
-      userHistory.locations.forEach(location => {
-        const locationTime = new Date(location.timestamp || new Date()).getTime();
-        const timeDiff = Math.abs(locationTime - lastIncludedTime);
-        const oneHour = 60 * 60 * 1000;
-        
-        // Include location if it's the first one or if it's been more than 45 minutes since the last included location
-        if (lastIncludedTime === 0 || timeDiff >= oneHour * 0.75) {
-          filteredLocations.push(location);
-          lastIncludedTime = locationTime;
-        }
-      });
-      
-      groupedHistory[userIdStr].locations = filteredLocations;
-    });
-
-    return groupedHistory;
+    return { history: groupedHistory, nextCursor };
   }
 
   // Family connection operations
@@ -287,6 +675,21 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.user);
   }
 
+  // Users holding an accepted connection to this user, i.e. everyone allowed to follow them live
+  async getFamilyViewerIds(userId: number): Promise<number[]> {
+    const result = await db
+      .select({ userId: familyConnections.userId })
+      .from(familyConnections)
+      .where(
+        and(
+          eq(familyConnections.familyMemberId, userId),
+          eq(familyConnections.status, "accepted")
+        )
+      );
+    
+    return result.map(r => r.userId);
+  }
+
   async getPendingInvitations(userId: number): Promise<Array<FamilyConnection & { user: User }>> {
     const result = await db
       .select({
@@ -374,6 +777,8 @@ export class DatabaseStorage implements IStorage {
         longitude: places.longitude,
         category: places.category,
         color: places.color,
+        radius: places.radius,
+        boundary: places.boundary,
         createdAt: places.createdAt,
         user: users,
       })
@@ -407,13 +812,473 @@ export class DatabaseStorage implements IStorage {
       .where(eq(places.id, placeId));
   }
 
-  async updatePlace(placeId: number, updates: { name?: string; category?: string; color?: string }): Promise<void> {
+  async updatePlace(placeId: number, updates: PlaceUpdate): Promise<void> {
     await db
       .update(places)
       .set(updates)
       .where(eq(places.id, placeId));
   }
   
+  // Geofence state operations
+  async getUserGeofenceStates(userId: number): Promise<GeofenceState[]> {
+    return await db
+      .select()
+      .from(geofenceStates)
+      .where(eq(geofenceStates.userId, userId));
+  }
+
+  // Returns false when the stored state already matches (e.g. another server instance recorded the same transition
+  // first) or a newer fix has already moved it
+  async recordGeofenceTransition(userId: number, placeId: number, isInside: boolean, transitionAt: Date): Promise<boolean> {
+    const updated = await db
+      .insert(geofenceStates)
+      .values({ userId, placeId, isInside, lastTransitionAt: transitionAt, lastFixAt: transitionAt, updatedAt: transitionAt })
+      .onConflictDoUpdate({
+        target: [geofenceStates.userId, geofenceStates.placeId],
+        set: {
+          isInside,
+          lastTransitionAt: transitionAt,
+          pendingInside: null,
+          pendingSince: null,
+          pendingFixCount: 0,
+          lastFixAt: transitionAt,
+          updatedAt: transitionAt,
+        },
+        setWhere: and(
+          eq(geofenceStates.isInside, !isInside),
+          or(isNull(geofenceStates.lastFixAt), lt(geofenceStates.lastFixAt, transitionAt))
+        ),
+      })
+      .returning({ id: geofenceStates.id });
+    return updated.length > 0;
+  }
+
+  // Ignored when a fix newer than `observedAt` has already updated the state
+  async updateGeofencePending(userId: number, placeId: number, pending: GeofencePendingUpdate, observedAt: Date): Promise<void> {
+    await db
+      .insert(geofenceStates)
+      .values({ userId, placeId, ...pending, lastFixAt: observedAt })
+      .onConflictDoUpdate({
+        target: [geofenceStates.userId, geofenceStates.placeId],
+        set: { ...pending, lastFixAt: observedAt, updatedAt: new Date() },
+        setWhere: or(isNull(geofenceStates.lastFixAt), lt(geofenceStates.lastFixAt, observedAt)),
+      });
+  }
+
+  async clearUserGeofenceStates(userId: number): Promise<void> {
+    await db
+      .delete(geofenceStates)
+      .where(eq(geofenceStates.userId, userId));
+  }
+  
+  // Place subscription operations
+  async getPlaceSubscriptions(placeId: number): Promise<PlaceSubscription[]> {
+    return await db
+      .select()
+      .from(placeSubscriptions)
+      .where(eq(placeSubscriptions.placeId, placeId));
+  }
+
+  async getUserPlaceSubscriptions(userId: number, placeId: number): Promise<PlaceSubscription[]> {
+    return await db
+      .select()
+      .from(placeSubscriptions)
+      .where(
+        and(
+          eq(placeSubscriptions.userId, userId),
+          eq(placeSubscriptions.placeId, placeId)
+        )
+      )
+      .orderBy(desc(placeSubscriptions.createdAt));
+  }
+
+  async createPlaceSubscription(subscription: InsertPlaceSubscription): Promise<PlaceSubscription> {
+    const [savedSubscription] = await db
+      .insert(placeSubscriptions)
+      .values(subscription)
+      .returning();
+    return savedSubscription;
+  }
+
+  async updatePlaceSubscription(userId: number, placeId: number, subscriptionId: number, updates: Partial<InsertPlaceSubscription>): Promise<PlaceSubscription | undefined> {
+    const [subscription] = await db
+      .update(placeSubscriptions)
+      .set(updates)
+      .where(
+        and(
+          eq(placeSubscriptions.id, subscriptionId),
+          eq(placeSubscriptions.userId, userId),
+          eq(placeSubscriptions.placeId, placeId)
+        )
+      )
+      .returning();
+    return subscription;
+  }
+
+  async deletePlaceSubscription(userId: number, placeId: number, subscriptionId: number): Promise<void> {
+    await db
+      .delete(placeSubscriptions)
+      .where(
+        and(
+          eq(placeSubscriptions.id, subscriptionId),
+          eq(placeSubscriptions.userId, userId),
+          eq(placeSubscriptions.placeId, placeId)
+        )
+      );
+  }
+  
+  // Place expectation operations
+  async getEnabledExpectations(): Promise<Array<PlaceExpectation & { place: Place; member: User }>> {
+    const result = await db
+      .select({ expectation: placeExpectations, place: places, member: users })
+      .from(placeExpectations)
+      .innerJoin(places, eq(placeExpectations.placeId, places.id))
+      .innerJoin(users, eq(placeExpectations.memberId, users.id))
+      .where(
+        and(
+          eq(placeExpectations.enabled, true),
+          // Only while the member is still connected and sharing; rules outlive both
+          eq(users.locationSharingEnabled, true),
+          exists(
+            db
+              .select({ id: familyConnections.id })
+              .from(familyConnections)
+              .where(
+                and(
+                  eq(familyConnections.userId, placeExpectations.userId),
+                  eq(familyConnections.familyMemberId, placeExpectations.memberId),
+                  eq(familyConnections.status, "accepted")
+                )
+              )
+          )
+        )
+      );
+    
+    return result.map(r => ({ ...r.expectation, place: r.place, member: r.member }));
+  }
+
+  async getUserExpectations(userId: number): Promise<PlaceExpectation[]> {
+    return await db
+      .select()
+      .from(placeExpectations)
+      .where(eq(placeExpectations.userId, userId))
+      .orderBy(desc(placeExpectations.createdAt));
+  }
+
+  async createExpectation(expectation: InsertPlaceExpectation): Promise<PlaceExpectation> {
+    const [savedExpectation] = await db
+      .insert(placeExpectations)
+      .values(expectation)
+      .returning();
+    return savedExpectation;
+  }
+
+  async updateExpectation(userId: number, expectationId: number, updates: Partial<InsertPlaceExpectation>): Promise<PlaceExpectation | undefined> {
+    // A new deadline or kind is a new check, so today's earlier outcome no longer applies
+    const rescheduled = updates.minuteOfDay !== undefined || updates.kind !== undefined;
+    const [expectation] = await db
+      .update(placeExpectations)
+      .set(rescheduled ? { ...updates, lastSettledOn: null } : updates)
+      .where(
+        and(
+          eq(placeExpectations.id, expectationId),
+          eq(placeExpectations.userId, userId)
+        )
+      )
+      .returning();
+    return expectation;
+  }
+
+  async markExpectationSeenInside(expectationId: number, localDate: string): Promise<void> {
+    await db
+      .update(placeExpectations)
+      .set({ lastSeenInsideOn: localDate })
+      .where(eq(placeExpectations.id, expectationId));
+  }
+
+  // Claims the expectation for the given local date; returns false if it was already settled that day
+  async settleExpectation(expectationId: number, localDate: string): Promise<boolean> {
+    const settled = await db
+      .update(placeExpectations)
+      .set({ lastSettledOn: localDate })
+      .where(
+        and(
+          eq(placeExpectations.id, expectationId),
+          sql`${placeExpectations.lastSettledOn} IS DISTINCT FROM ${localDate}`
+        )
+      )
+      .returning({ id: placeExpectations.id });
+    return settled.length > 0;
+  }
+
+  async deleteExpectation(userId: number, expectationId: number): Promise<void> {
+    await db
+      .delete(placeExpectations)
+      .where(
+        and(
+          eq(placeExpectations.id, expectationId),
+          eq(placeExpectations.userId, userId)
+        )
+      );
+  }
+  
+  // Device alert rule operations
+  async getEnabledDeviceAlertRules(): Promise<Array<DeviceAlertRule & { member: User }>> {
+    const result = await db
+      .select({ rule: deviceAlertRules, member: users })
+      .from(deviceAlertRules)
+      .innerJoin(users, eq(deviceAlertRules.memberId, users.id))
+      .where(eq(deviceAlertRules.enabled, true));
+    
+    return result.map(r => ({ ...r.rule, member: r.member }));
+  }
+
+  async getUserDeviceAlertRules(userId: number): Promise<DeviceAlertRule[]> {
+    return await db
+      .select()
+      .from(deviceAlertRules)
+      .where(eq(deviceAlertRules.userId, userId))
+      .orderBy(desc(deviceAlertRules.createdAt));
+  }
+
+  // One rule per kind for each member: saving again replaces the threshold and starts a fresh episode
+  async saveDeviceAlertRule(rule: InsertDeviceAlertRule): Promise<DeviceAlertRule> {
+    const [savedRule] = await db
+      .insert(deviceAlertRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [deviceAlertRules.userId, deviceAlertRules.memberId, deviceAlertRules.kind],
+        set: { threshold: rule.threshold, enabled: rule.enabled ?? true, episodeStartedAt: null },
+      })
+      .returning();
+    return savedRule;
+  }
+
+  async updateDeviceAlertRule(userId: number, ruleId: number, updates: Partial<InsertDeviceAlertRule>): Promise<DeviceAlertRule | undefined> {
+    const [rule] = await db
+      .update(deviceAlertRules)
+      .set({ ...updates, episodeStartedAt: null })
+      .where(
+        and(
+          eq(deviceAlertRules.id, ruleId),
+          eq(deviceAlertRules.userId, userId)
+        )
+      )
+      .returning();
+    return rule;
+  }
+
+  // Claims the alert for the current episode; returns false if it already fired and the device hasn't recovered
+  async startDeviceAlertEpisode(ruleId: number): Promise<boolean> {
+    const started = await db
+      .update(deviceAlertRules)
+      .set({ episodeStartedAt: new Date() })
+      .where(
+        and(
+          eq(deviceAlertRules.id, ruleId),
+          isNull(deviceAlertRules.episodeStartedAt)
+        )
+      )
+      .returning({ id: deviceAlertRules.id });
+    return started.length > 0;
+  }
+
+  async endDeviceAlertEpisode(ruleId: number): Promise<void> {
+    await db
+      .update(deviceAlertRules)
+      .set({ episodeStartedAt: null })
+      .where(eq(deviceAlertRules.id, ruleId));
+  }
+
+  async deleteDeviceAlertRule(userId: number, ruleId: number): Promise<void> {
+    await db
+      .delete(deviceAlertRules)
+      .where(
+        and(
+          eq(deviceAlertRules.id, ruleId),
+          eq(deviceAlertRules.userId, userId)
+        )
+      );
+  }
+  
+  // Timeline operations
+  async getLatestTimelineSegment(userId: number, startedBefore?: Date, kind?: 'stay' | 'trip'): Promise<TimelineSegment | undefined> {
+    const [segment] = await db
+      .select()
+      .from(timelineSegments)
+      .where(
+        and(
+          eq(timelineSegments.userId, userId),
+          kind ? eq(timelineSegments.kind, kind) : undefined,
+          startedBefore ? lte(timelineSegments.startedAt, startedBefore) : undefined
+        )
+      )
+      .orderBy(desc(timelineSegments.startedAt))
+      .limit(1);
+    return segment;
+  }
+
+  // Swap every segment starting at or after `from` (all of them when null) for a freshly computed tail
+  async replaceTimelineSegments(userId: number, from: Date | null, segments: InsertTimelineSegment[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(timelineSegments)
+        .where(
+          and(
+            eq(timelineSegments.userId, userId),
+            from ? gte(timelineSegments.startedAt, from) : undefined
+          )
+        );
+      if (segments.length > 0) {
+        await tx.insert(timelineSegments).values(segments);
+      }
+    });
+  }
+
+  async updateTimelineSegment(segmentId: number, updates: Partial<InsertTimelineSegment>): Promise<void> {
+    await db
+      .update(timelineSegments)
+      .set(updates)
+      .where(eq(timelineSegments.id, segmentId));
+  }
+
+  // Segments overlapping [start, end), oldest first
+  async getTimelineSegments(userId: number, start: Date, end: Date): Promise<TimelineSegment[]> {
+    return await db
+      .select()
+      .from(timelineSegments)
+      .where(
+        and(
+          eq(timelineSegments.userId, userId),
+          lt(timelineSegments.startedAt, end),
+          gte(timelineSegments.endedAt, start)
+        )
+      )
+      .orderBy(timelineSegments.startedAt);
+  }
+  
+  // Scheduled job operations
+  // Create a job, or move an existing one of the same type for the same user to the new run time
+  async scheduleJob(type: string, userId: number | null, runAt: Date): Promise<ScheduledJob> {
+    const [job] = await db
+      .insert(scheduledJobs)
+      .values({ type, userId, runAt })
+      .onConflictDoUpdate({
+        target: [scheduledJobs.type, scheduledJobs.userId],
+        set: { runAt, attempts: 0, lastError: null },
+      })
+      .returning();
+    return job;
+  }
+
+  async getUsersWithoutScheduledJob(type: string): Promise<User[]> {
+    const result = await db
+      .select({ user: users })
+      .from(users)
+      .leftJoin(scheduledJobs, and(eq(scheduledJobs.userId, users.id), eq(scheduledJobs.type, type)))
+      .where(isNull(scheduledJobs.id));
+    return result.map(r => r.user);
+  }
+
+  async getScheduledJob(type: string, userId: number | null): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.type, type),
+          userId === null ? isNull(scheduledJobs.userId) : eq(scheduledJobs.userId, userId)
+        )
+      );
+    return job;
+  }
+
+  async deleteScheduledJob(type: string, userId: number | null): Promise<void> {
+    await db
+      .delete(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.type, type),
+          userId === null ? isNull(scheduledJobs.userId) : eq(scheduledJobs.userId, userId)
+        )
+      );
+  }
+
+  // Lease up to `limit` due jobs to a worker. SKIP LOCKED lets concurrent workers claim disjoint jobs,
+  // and a job whose lease lapsed (its worker died mid-run) becomes claimable again.
+  async claimDueJobs(workerId: string, leaseMs: number, limit: number): Promise<ScheduledJob[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: scheduledJobs.id })
+      .from(scheduledJobs)
+      .where(
+        and(
+          lte(scheduledJobs.runAt, now),
+          or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now))
+        )
+      )
+      .orderBy(scheduledJobs.runAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(scheduledJobs)
+      .set({ lockedBy: workerId, lockedUntil: new Date(now.getTime() + leaseMs) })
+      .where(inArray(scheduledJobs.id, due))
+      .returning();
+  }
+
+  // Release a finished job: reschedule it, or delete it when there's no next run
+  async completeScheduledJob(jobId: number, workerId: string, nextRunAt: Date | null): Promise<void> {
+    const heldByWorker = and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.lockedBy, workerId));
+    if (nextRunAt === null) {
+      await db.delete(scheduledJobs).where(heldByWorker);
+      return;
+    }
+    await db
+      .update(scheduledJobs)
+      .set({
+        runAt: nextRunAt,
+        lockedBy: null,
+        lockedUntil: null,
+        attempts: 0,
+        lastRunAt: new Date(),
+        lastError: null,
+      })
+      .where(heldByWorker);
+  }
+
+  async failScheduledJob(jobId: number, workerId: string, error: string, retryAt: Date): Promise<void> {
+    await db
+      .update(scheduledJobs)
+      .set({
+        runAt: retryAt,
+        lockedBy: null,
+        lockedUntil: null,
+        attempts: sql`${scheduledJobs.attempts} + 1`,
+        lastRunAt: new Date(),
+        lastError: error,
+      })
+      .where(and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.lockedBy, workerId)));
+  }
+  
+  // Rate limit operations
+  // Token bucket: refill for the time since the last take (capped at `burst`), then spend one token. The
+  // upsert's row lock keeps concurrent takes from several instances from overspending.
+  async takeRateLimitToken(name: string, ratePerSecond: number, burst: number): Promise<boolean> {
+    const refilled = sql`least(${burst}::double precision, ${rateLimitBuckets.tokens} + extract(epoch from now() - ${rateLimitBuckets.refilledAt}) * ${ratePerSecond}::double precision)`;
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ name, tokens: burst - 1, refilledAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.name,
+        set: { tokens: sql`${refilled} - 1`, refilledAt: sql`now()` },
+        setWhere: sql`${refilled} >= 1`,
+      })
+      .returning({ name: rateLimitBuckets.name });
+    return !!bucket;
+  }
+  
   // Invitation code operations
   async createInvitationCode(invitation: InsertInvitationCode): Promise<InvitationCode> {
     const [code] = await db
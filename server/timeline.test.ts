@@ -0,0 +1,82 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { addFixToTimeline } from './timeline';
+import type { TimelineSegment } from '@shared/schema';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+const overnight: TimelineSegment = {
+  id: 7,
+  userId: 1,
+  kind: 'stay',
+  startedAt: new Date('2024-05-01T20:00:00Z'),
+  endedAt: new Date('2024-05-02T06:00:00Z'),
+  latitude: 47.0,
+  longitude: 8.0,
+  placeId: 3,
+  fromPlaceId: null,
+  toPlaceId: null,
+  distanceMeters: 0,
+  pointCount: 1200,
+};
+
+// A fix `meters` north of the stay's centroid at `time`
+function fixAt(meters: number, time: string) {
+  return {
+    latitude: 47.0 + meters / METERS_PER_DEGREE_LAT,
+    longitude: 8.0,
+    timestamp: new Date(time),
+    suspect: false,
+    capturedWhilePaused: false,
+  };
+}
+
+describe('addFixToTimeline', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function stubStorage(latest: TimelineSegment | undefined) {
+    return {
+      updateSegment: mock.method(storage, 'updateTimelineSegment', async () => {}),
+      loadFixes: mock.method(storage, 'getUserLocationsSince', async () => []),
+      latest: mock.method(storage, 'getLatestTimelineSegment', async () => latest),
+      places: mock.method(storage, 'getFamilyPlaces', async () => []),
+      replace: mock.method(storage, 'replaceTimelineSegments', async () => {}),
+    };
+  }
+
+  it('stretches the open stay to a fix that stays near it, without reloading its fixes', async () => {
+    const stubs = stubStorage(overnight);
+
+    await addFixToTimeline(1, fixAt(30, '2024-05-02T06:00:30Z'));
+
+    assert.equal(stubs.loadFixes.mock.callCount(), 0);
+    assert.equal(stubs.updateSegment.mock.callCount(), 1);
+    const [segmentId, updates] = stubs.updateSegment.mock.calls[0].arguments;
+    assert.equal(segmentId, overnight.id);
+    assert.ok(updates);
+    assert.deepEqual(updates.endedAt, new Date('2024-05-02T06:00:30Z'));
+    assert.equal(updates.pointCount, 1201);
+    assert.ok(updates.latitude! > overnight.latitude! && updates.latitude! < fixAt(30, '2024-05-02T06:00:30Z').latitude);
+  });
+
+  it('re-segments once a fix leaves the stay', async () => {
+    const stubs = stubStorage(overnight);
+
+    await addFixToTimeline(1, fixAt(500, '2024-05-02T06:00:30Z'));
+
+    assert.equal(stubs.updateSegment.mock.callCount(), 0);
+    assert.deepEqual(stubs.loadFixes.mock.calls[0]?.arguments[1], overnight.startedAt);
+  });
+
+  it('leaves the timeline alone for a suspect fix', async () => {
+    const stubs = stubStorage(overnight);
+
+    await addFixToTimeline(1, { ...fixAt(30, '2024-05-02T06:00:30Z'), suspect: true });
+
+    assert.equal(stubs.latest.mock.callCount(), 0);
+    assert.equal(stubs.loadFixes.mock.callCount(), 0);
+  });
+});
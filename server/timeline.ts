@@ -0,0 +1,234 @@
+import { storage } from './storage';
+import { calculateDistance, isWithinGeofence } from './geofencing';
+import type { InsertTimelineSegment, Location, Place } from '@shared/schema';
+
+type TimelineFix = Pick<Location, 'latitude' | 'longitude' | 'timestamp'>;
+type NewTimelineFix = TimelineFix & Pick<Location, 'suspect' | 'capturedWhilePaused'>;
+type TimelinePlace = Pick<Place, 'id' | 'latitude' | 'longitude' | 'radius' | 'boundary'>;
+
+// A computed segment, before it is attributed to a user
+export type SegmentDraft = Omit<InsertTimelineSegment, 'id' | 'userId'>;
+
+// Stay detection tuning: fixes that keep within the radius of their running centroid for at least the
+// minimum duration form a stay. Stays split by only a couple of stray fixes are merged back together.
+const STAY_RADIUS_METERS = 100;
+const STAY_MIN_DURATION_MS = 10 * 60 * 1000;
+const MAX_STRAY_FIXES = 2;
+
+// How far back a timeline is built when the user has no segments to resume from
+const TIMELINE_BACKFILL_MS = 24 * 60 * 60 * 1000;
+
+// Span of fixes loaded at a time when re-segmenting a long stretch of history, e.g. after an import
+const TIMELINE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A run of consecutive fixes: a stay (with its centroid) or the moving fixes of a trip between stays
+export interface FixRun<T extends TimelineFix> {
+  kind: 'stay' | 'trip';
+  fixes: T[];
+  latitude: number;
+  longitude: number;
+}
+
+function pathDistance(fixes: TimelineFix[]): number {
+  let distance = 0;
+  for (let i = 1; i < fixes.length; i++) {
+    distance += calculateDistance(fixes[i - 1].latitude, fixes[i - 1].longitude, fixes[i].latitude, fixes[i].longitude);
+  }
+  return distance;
+}
+
+// The place whose geofence contains a point, preferring the nearest pin when fences overlap
+function matchPlace(latitude: number, longitude: number, places: TimelinePlace[]): number | null {
+  let match: TimelinePlace | undefined;
+  let matchDistance = Infinity;
+  for (const place of places) {
+    if (!isWithinGeofence(latitude, longitude, place)) {
+      continue;
+    }
+    const distance = calculateDistance(latitude, longitude, place.latitude, place.longitude);
+    if (distance < matchDistance) {
+      match = place;
+      matchDistance = distance;
+    }
+  }
+  return match?.id ?? null;
+}
+
+// Split timestamped fixes into alternating stay and trip runs, oldest first. Fixes without a
+// timestamp are dropped; fixes after the final stay form a trailing trip run.
+export function partitionFixes<T extends TimelineFix>(locations: T[]): FixRun<T>[] {
+  const fixes = locations
+    .filter(location => location.timestamp)
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+
+  const runs: FixRun<T>[] = [];
+  let lastStay: (FixRun<T> & { clusteredCount: number }) | undefined;
+  let movingFixes: T[] = [];
+
+  let i = 0;
+  while (i < fixes.length) {
+    // Grow a cluster from fix i for as long as each next fix stays near its running centroid
+    let latitude = fixes[i].latitude;
+    let longitude = fixes[i].longitude;
+    let end = i + 1;
+    while (end < fixes.length &&
+      calculateDistance(latitude, longitude, fixes[end].latitude, fixes[end].longitude) <= STAY_RADIUS_METERS) {
+      const count = end - i;
+      latitude = (latitude * count + fixes[end].latitude) / (count + 1);
+      longitude = (longitude * count + fixes[end].longitude) / (count + 1);
+      end++;
+    }
+
+    const cluster = fixes.slice(i, end);
+    const clusterDuration = cluster[cluster.length - 1].timestamp!.getTime() - cluster[0].timestamp!.getTime();
+    if (clusterDuration < STAY_MIN_DURATION_MS) {
+      movingFixes.push(fixes[i]);
+      i++;
+      continue;
+    }
+
+    const rejoinsLastStay = lastStay &&
+      movingFixes.length <= MAX_STRAY_FIXES &&
+      calculateDistance(lastStay.latitude, lastStay.longitude, latitude, longitude) <= STAY_RADIUS_METERS;
+
+    if (lastStay && rejoinsLastStay) {
+      // A brief wander (or GPS glitch) away from the same spot: extend the previous stay instead
+      const clusteredCount = lastStay.clusteredCount + cluster.length;
+      lastStay.latitude = (lastStay.latitude * lastStay.clusteredCount + latitude * cluster.length) / clusteredCount;
+      lastStay.longitude = (lastStay.longitude * lastStay.clusteredCount + longitude * cluster.length) / clusteredCount;
+      lastStay.clusteredCount = clusteredCount;
+      lastStay.fixes.push(...movingFixes, ...cluster);
+    } else {
+      if (movingFixes.length > 0) {
+        runs.push({ kind: 'trip', fixes: movingFixes, latitude: movingFixes[0].latitude, longitude: movingFixes[0].longitude });
+      }
+      lastStay = { kind: 'stay', fixes: cluster, latitude, longitude, clusteredCount: cluster.length };
+      runs.push(lastStay);
+    }
+
+    movingFixes = [];
+    i = end;
+  }
+
+  // Still on the move (or not yet dwelled long enough)
+  if (movingFixes.length > 0) {
+    runs.push({ kind: 'trip', fixes: movingFixes, latitude: movingFixes[0].latitude, longitude: movingFixes[0].longitude });
+  }
+
+  return runs.map(({ kind, fixes, latitude, longitude }) => ({ kind, fixes, latitude, longitude }));
+}
+
+// Turn a user's fixes into alternating stays and trips. Trips run from the last fix of one stay to the
+// first fix of the next; fixes after the final stay form an open trip ending at the latest fix.
+export function segmentLocations(locations: TimelineFix[], places: TimelinePlace[]): SegmentDraft[] {
+  const runs = partitionFixes(locations);
+  const stayPlaceIds = runs.map(run => run.kind === 'stay' ? matchPlace(run.latitude, run.longitude, places) : null);
+
+  return runs.map((run, index): SegmentDraft => {
+    const first = run.fixes[0];
+    const last = run.fixes[run.fixes.length - 1];
+    if (run.kind === 'stay') {
+      return {
+        kind: 'stay',
+        startedAt: first.timestamp!,
+        endedAt: last.timestamp!,
+        latitude: run.latitude,
+        longitude: run.longitude,
+        placeId: stayPlaceIds[index],
+        distanceMeters: 0,
+        pointCount: run.fixes.length,
+      };
+    }
+
+    const previousStay = index > 0 ? runs[index - 1] : undefined;
+    const nextStay = index < runs.length - 1 ? runs[index + 1] : undefined;
+    const path = [
+      ...(previousStay ? [previousStay.fixes[previousStay.fixes.length - 1]] : []),
+      ...run.fixes,
+      ...(nextStay ? [nextStay.fixes[0]] : []),
+    ];
+    return {
+      kind: 'trip',
+      startedAt: path[0].timestamp!,
+      endedAt: path[path.length - 1].timestamp!,
+      fromPlaceId: previousStay ? stayPlaceIds[index - 1] : null,
+      toPlaceId: nextStay ? stayPlaceIds[index + 1] : null,
+      distanceMeters: pathDistance(path),
+      pointCount: run.fixes.length,
+    };
+  });
+}
+
+// Recompute a user's timeline from their last settled stay onward. Segments before that stay can no
+// longer change, so each new fix only re-segments the tail. Pass `since` when fixes arrive out of order
+// to restart from the last stay that began before them. Without a stay there is at most one trip to redo,
+// and without any timeline at all (e.g. history from before timelines existed) only the last
+// TIMELINE_BACKFILL_MS is built, so a new fix never reloads the user's whole history.
+//
+// A restart far in the past (an imported year) is worked through TIMELINE_WINDOW_MS of fixes at a time.
+// A window's last stay may carry on into the next one, so it is left for the next window to redo; a
+// window that is one long stay is widened instead. A trip cut by a window boundary is split in two.
+export async function updateTimeline(userId: number, since?: Date) {
+  try {
+    const resumeFrom = await storage.getLatestTimelineSegment(userId, since, 'stay') ??
+      await storage.getLatestTimelineSegment(userId, since);
+    let from = resumeFrom?.startedAt ?? new Date((since ?? new Date()).getTime() - TIMELINE_BACKFILL_MS);
+    const places = await storage.getFamilyPlaces(userId);
+
+    let windowMs = TIMELINE_WINDOW_MS;
+    for (;;) {
+      const until = new Date(from.getTime() + windowMs);
+      const isLastWindow = until.getTime() >= Date.now();
+      const fixes = await storage.getUserLocationsSince(userId, from, isLastWindow ? undefined : until);
+
+      // Family can read the timeline, so a sharing pause shows as a gap rather than stays and trips
+      const trusted = fixes.filter(fix => !fix.suspect && !fix.capturedWhilePaused);
+      const segments = segmentLocations(trusted, places).map(segment => ({ ...segment, userId }));
+      if (isLastWindow) {
+        await storage.replaceTimelineSegments(userId, from, segments);
+        return;
+      }
+
+      const lastStay = segments.findLastIndex(segment => segment.kind === 'stay');
+      if (lastStay === 0) {
+        windowMs += TIMELINE_WINDOW_MS;
+        continue;
+      }
+      await storage.replaceTimelineSegments(userId, from, lastStay > 0 ? segments.slice(0, lastStay) : segments);
+      from = lastStay > 0 ? segments[lastStay].startedAt : until;
+      windowMs = TIMELINE_WINDOW_MS;
+    }
+  } catch (error) {
+    console.error(`Error updating timeline for user ${userId}:`, error);
+  }
+}
+
+// Fold a user's newest fix into their timeline. While it keeps within STAY_RADIUS_METERS of the open
+// stay's centroid (the usual case, e.g. overnight at home) the stay is only stretched to it, the way
+// partitionFixes would grow the cluster; otherwise the tail is re-segmented with updateTimeline.
+export async function addFixToTimeline(userId: number, fix: NewTimelineFix) {
+  // The timeline leaves these out anyway
+  if (fix.suspect || fix.capturedWhilePaused || !fix.timestamp) {
+    return;
+  }
+
+  try {
+    const latest = await storage.getLatestTimelineSegment(userId);
+    if (latest?.kind === 'stay' && latest.latitude !== null && latest.longitude !== null &&
+      fix.timestamp.getTime() > latest.endedAt.getTime() &&
+      calculateDistance(latest.latitude, latest.longitude, fix.latitude, fix.longitude) <= STAY_RADIUS_METERS) {
+      const pointCount = latest.pointCount + 1;
+      await storage.updateTimelineSegment(latest.id, {
+        endedAt: fix.timestamp,
+        pointCount,
+        latitude: (latest.latitude * latest.pointCount + fix.latitude) / pointCount,
+        longitude: (latest.longitude * latest.pointCount + fix.longitude) / pointCount,
+      });
+      return;
+    }
+  } catch (error) {
+    console.error(`Error extending timeline stay for user ${userId}:`, error);
+  }
+
+  await updateTimeline(userId);
+}
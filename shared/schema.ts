@@ -5,12 +5,14 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   real,
   doublePrecision,
   boolean,
   uuid,
   integer,
+  pgSequence,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -27,6 +29,9 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Cluster-wide sequence numbers for realtime events, whichever broker fans them out
+export const realtimeEventSeq = pgSequence("realtime_event_seq");
+
 // User storage table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -37,12 +42,30 @@ export const users = pgTable("users", {
   phoneNumber: varchar("phone_number"),
   profileImageUrl: varchar("profile_image_url"),
   locationSharingEnabled: boolean("location_sharing_enabled").default(true),
+  sharingPausedUntil: timestamp("sharing_paused_until"), // Sharing is paused until then (or an earlier resume); null = not paused
+  sharingResumePlaceId: integer("sharing_resume_place_id"), // Place whose arrival ends the pause early
   locationHistoryEnabled: boolean("location_history_enabled").default(true),
   notificationsEnabled: boolean("notifications_enabled").default(true),
+  locationRetentionDays: integer("location_retention_days"), // Days of location history to keep; null = forever
+  autoLoggingEnabled: boolean("auto_logging_enabled").notNull().default(true), // Automatic logging, on top of history being kept
+  locationLogIntervalMinutes: integer("location_log_interval_minutes").notNull().default(60), // Automatic logging cadence
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Each pause in a user's location sharing, kept after it ends so fixes can be judged by when they were
+// captured: a phone that was offline during a pause uploads them only afterwards
+export const sharingPauses = pgTable(
+  "sharing_pauses",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    startedAt: timestamp("started_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(), // Planned end while the pause runs; the actual end once resumed
+  },
+  (table) => [index("IDX_sharing_pause_user_ends").on(table.userId, table.endsAt)],
+);
+
 // Family connections table
 export const familyConnections = pgTable("family_connections", {
   id: serial("id").primaryKey(),
@@ -59,11 +82,26 @@ export const locations = pgTable("locations", {
   latitude: doublePrecision("latitude").notNull(),
   longitude: doublePrecision("longitude").notNull(),
   accuracy: doublePrecision("accuracy"),
+  speed: doublePrecision("speed"), // Meters per second
+  heading: doublePrecision("heading"), // Degrees clockwise from true north
+  altitude: doublePrecision("altitude"), // Meters above the WGS84 ellipsoid
+  altitudeAccuracy: doublePrecision("altitude_accuracy"),
+  batteryLevel: doublePrecision("battery_level"), // 0 to 1
+  isCharging: boolean("is_charging"),
+  source: varchar("source"), // gps, network, manual, imported
   address: text("address"),
-  type: varchar("type").notNull().default("manual"), // manual, automatic_hourly
-  timestamp: timestamp("timestamp").defaultNow(),
+  type: varchar("type").notNull().default("manual"), // manual, automatic_hourly, imported, compacted
+  geofenceTriggered: boolean("geofence_triggered").notNull().default(false), // Fired a geofence transition; exempt from compaction
+  suspect: boolean("suspect").notNull().default(false), // Failed the sanity filter: kept in history, never shown live or used for geofences
+  suspectReason: varchar("suspect_reason"), // implied_speed, poor_accuracy
+  capturedWhilePaused: boolean("captured_while_paused").notNull().default(false), // Captured during a sharing pause; never shown to family
+  timestamp: timestamp("timestamp").defaultNow(), // Capture time on the device; the receive time when the client didn't send one
+  receivedAt: timestamp("received_at").defaultNow(),
 });
 
+// Polygon geofence drawn on the map, as [latitude, longitude] vertices
+export type PlaceBoundary = Array<[number, number]>;
+
 // Places table for saved/favorite places
 export const places = pgTable("places", {
   id: serial("id").primaryKey(),
@@ -74,9 +112,125 @@ export const places = pgTable("places", {
   longitude: doublePrecision("longitude").notNull(),
   category: varchar("category"), // home, work, school, etc.
   color: varchar("color").default("purple"), // Custom color for the place pin
+  radius: doublePrecision("radius").notNull().default(20), // Geofence radius in meters
+  boundary: jsonb("boundary").$type<PlaceBoundary>(), // Optional polygon geofence, overrides radius when set
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Geofence states table tracking whether each user is currently inside each place
+export const geofenceStates = pgTable(
+  "geofence_states",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    placeId: integer("place_id").notNull().references(() => places.id, { onDelete: "cascade" }),
+    isInside: boolean("is_inside").notNull().default(false),
+    lastTransitionAt: timestamp("last_transition_at"),
+    pendingInside: boolean("pending_inside"), // Unconfirmed transition target, null when nothing is pending
+    pendingSince: timestamp("pending_since"),
+    pendingFixCount: integer("pending_fix_count").notNull().default(0),
+    lastFixAt: timestamp("last_fix_at"), // Capture time of the fix behind the last state change; older fixes can't change it
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_geofence_state_user_place").on(table.userId, table.placeId)],
+);
+
+// Place subscriptions table: per-user rules for which geofence alerts they receive about a place
+export const placeSubscriptions = pgTable("place_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Subscriber
+  placeId: integer("place_id").notNull().references(() => places.id, { onDelete: "cascade" }),
+  memberId: integer("member_id").references(() => users.id, { onDelete: "cascade" }), // null = any family member
+  mode: varchar("mode").notNull().default("notify"), // notify, mute
+  onEnter: boolean("on_enter").notNull().default(true),
+  onExit: boolean("on_exit").notNull().default(true),
+  daysOfWeek: integer("days_of_week").array(), // 0 = Sunday; null = every day
+  startMinute: integer("start_minute"), // Minutes after local midnight; null = all day
+  endMinute: integer("end_minute"),
+  timezone: varchar("timezone").notNull().default("UTC"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Place expectations table: schedule rules like "at School by 8:30" or "at School until 15:00"
+export const placeExpectations = pgTable("place_expectations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who gets alerted
+  memberId: integer("member_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who is expected
+  placeId: integer("place_id").notNull().references(() => places.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull(), // arrive_by, stay_until
+  minuteOfDay: integer("minute_of_day").notNull(), // Deadline, minutes after local midnight
+  daysOfWeek: integer("days_of_week").array(), // 0 = Sunday; null = every day
+  timezone: varchar("timezone").notNull().default("UTC"),
+  enabled: boolean("enabled").notNull().default(true),
+  lastSeenInsideOn: varchar("last_seen_inside_on"), // Local date (YYYY-MM-DD) the member was last seen at the place
+  lastSettledOn: varchar("last_settled_on"), // Local date the expectation was last met or alerted on
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Timeline segments table: a user's location history folded into stays and the trips between them
+export const timelineSegments = pgTable(
+  "timeline_segments",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    kind: varchar("kind").notNull(), // stay, trip
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+    latitude: doublePrecision("latitude"), // Stay centroid; null for trips
+    longitude: doublePrecision("longitude"),
+    placeId: integer("place_id").references(() => places.id, { onDelete: "set null" }), // Place a stay was at
+    fromPlaceId: integer("from_place_id").references(() => places.id, { onDelete: "set null" }), // Places a trip left and reached
+    toPlaceId: integer("to_place_id").references(() => places.id, { onDelete: "set null" }),
+    distanceMeters: doublePrecision("distance_meters").notNull().default(0),
+    pointCount: integer("point_count").notNull(),
+  },
+  (table) => [index("IDX_timeline_segment_user_start").on(table.userId, table.startedAt)],
+);
+
+// Device alert rules table: "phone below 15%" and "no location for 2 hours" alerts about a family member
+export const deviceAlertRules = pgTable(
+  "device_alert_rules",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who gets alerted
+    memberId: integer("member_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Whose device is watched
+    kind: varchar("kind").notNull(), // low_battery, offline
+    threshold: integer("threshold").notNull(), // Battery percent for low_battery, minutes without a fix for offline
+    enabled: boolean("enabled").notNull().default(true),
+    episodeStartedAt: timestamp("episode_started_at"), // Set when the alert fires, cleared once the device recovers
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_device_alert_rule_user_member_kind").on(table.userId, table.memberId, table.kind)],
+);
+
+// Scheduled jobs table: durable background work, claimed by whichever server instance polls for it first
+export const scheduledJobs = pgTable(
+  "scheduled_jobs",
+  {
+    id: serial("id").primaryKey(),
+    type: varchar("type").notNull(), // location_log
+    userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Null for system-wide jobs
+    runAt: timestamp("run_at").notNull(),
+    lockedBy: varchar("locked_by"), // Worker running the job; its lease lapses at lockedUntil
+    lockedUntil: timestamp("locked_until"),
+    attempts: integer("attempts").notNull().default(0), // Consecutive failed runs
+    lastRunAt: timestamp("last_run_at"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_scheduled_job_type_user").on(table.type, table.userId),
+    index("IDX_scheduled_job_run_at").on(table.runAt),
+  ],
+);
+
+// Rate limit token buckets shared by every server instance, e.g. to stay within an external API's usage policy
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  name: varchar("name").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  refilledAt: timestamp("refilled_at").notNull(),
+});
+
 // Invitation codes table for family invitations
 export const invitationCodes = pgTable("invitation_codes", {
   id: serial("id").primaryKey(),
@@ -92,7 +246,7 @@ export const invitationCodes = pgTable("invitation_codes", {
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   userId: serial("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  type: varchar("type").notNull(), // 'geofence_enter', 'geofence_exit', 'family_invite', etc.
+  type: varchar("type").notNull(), // 'geofence_enter', 'geofence_exit', 'expectation_missed_arrival', 'expectation_left_early', etc.
   title: varchar("title").notNull(),
   message: text("message").notNull(),
   data: jsonb("data"), // Additional data for the notification
@@ -118,6 +272,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   familyMemberConnections: many(familyConnections, { relationName: "memberConnections" }),
   invitationCodes: many(invitationCodes),
   notifications: many(notifications),
+  geofenceStates: many(geofenceStates),
+  placeSubscriptions: many(placeSubscriptions, { relationName: "subscriber" }),
+  placeExpectations: many(placeExpectations, { relationName: "expectationOwner" }),
+  deviceAlertRules: many(deviceAlertRules, { relationName: "deviceAlertOwner" }),
+  timelineSegments: many(timelineSegments),
+  scheduledJobs: many(scheduledJobs),
 }));
 
 export const familyConnectionsRelations = relations(familyConnections, ({ one }) => ({
@@ -140,11 +300,86 @@ export const locationsRelations = relations(locations, ({ one }) => ({
   }),
 }));
 
-export const placesRelations = relations(places, ({ one }) => ({
+export const placesRelations = relations(places, ({ one, many }) => ({
   user: one(users, {
     fields: [places.userId],
     references: [users.id],
   }),
+  geofenceStates: many(geofenceStates),
+  subscriptions: many(placeSubscriptions),
+}));
+
+export const geofenceStatesRelations = relations(geofenceStates, ({ one }) => ({
+  user: one(users, {
+    fields: [geofenceStates.userId],
+    references: [users.id],
+  }),
+  place: one(places, {
+    fields: [geofenceStates.placeId],
+    references: [places.id],
+  }),
+}));
+
+export const placeSubscriptionsRelations = relations(placeSubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [placeSubscriptions.userId],
+    references: [users.id],
+    relationName: "subscriber",
+  }),
+  place: one(places, {
+    fields: [placeSubscriptions.placeId],
+    references: [places.id],
+  }),
+  member: one(users, {
+    fields: [placeSubscriptions.memberId],
+    references: [users.id],
+  }),
+}));
+
+export const placeExpectationsRelations = relations(placeExpectations, ({ one }) => ({
+  user: one(users, {
+    fields: [placeExpectations.userId],
+    references: [users.id],
+    relationName: "expectationOwner",
+  }),
+  member: one(users, {
+    fields: [placeExpectations.memberId],
+    references: [users.id],
+  }),
+  place: one(places, {
+    fields: [placeExpectations.placeId],
+    references: [places.id],
+  }),
+}));
+
+export const deviceAlertRulesRelations = relations(deviceAlertRules, ({ one }) => ({
+  user: one(users, {
+    fields: [deviceAlertRules.userId],
+    references: [users.id],
+    relationName: "deviceAlertOwner",
+  }),
+  member: one(users, {
+    fields: [deviceAlertRules.memberId],
+    references: [users.id],
+  }),
+}));
+
+export const timelineSegmentsRelations = relations(timelineSegments, ({ one }) => ({
+  user: one(users, {
+    fields: [timelineSegments.userId],
+    references: [users.id],
+  }),
+  place: one(places, {
+    fields: [timelineSegments.placeId],
+    references: [places.id],
+  }),
+}));
+
+export const scheduledJobsRelations = relations(scheduledJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [scheduledJobs.userId],
+    references: [users.id],
+  }),
 }));
 
 export const invitationCodesRelations = relations(invitationCodes, ({ one }) => ({
@@ -174,16 +409,90 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertLocationSchema = createInsertSchema(locations).omit({
+export const locationSourceSchema = z.enum(["gps", "network", "manual", "imported"]);
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  speed: z.number().min(0).nullable().optional(),
+  heading: z.number().min(0).max(360).nullable().optional(),
+  altitudeAccuracy: z.number().min(0).nullable().optional(),
+  batteryLevel: z.number().min(0).max(1).nullable().optional(),
+  source: locationSourceSchema.nullable().optional(),
+  timestamp: z.preprocess((value) => value ?? undefined, z.coerce.date().optional()),
+}).omit({
+  id: true,
+  geofenceTriggered: true,
+  suspect: true,
+  suspectReason: true,
+  capturedWhilePaused: true,
+  receivedAt: true,
+});
+
+export const placeBoundarySchema = z
+  .array(z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]))
+  .min(3)
+  .max(100);
+
+// Geofence radius bounds in meters, shared with the place editor's slider
+export const MIN_PLACE_RADIUS = 5;
+export const MAX_PLACE_RADIUS = 5000;
+
+export const placeRadiusSchema = z.number().min(MIN_PLACE_RADIUS).max(MAX_PLACE_RADIUS);
+
+export const insertPlaceSchema = createInsertSchema(places, {
+  radius: placeRadiusSchema.optional(),
+  boundary: placeBoundarySchema.nullable().optional(),
+}).omit({
   id: true,
-  timestamp: true,
+  createdAt: true,
 });
 
-export const insertPlaceSchema = createInsertSchema(places).omit({
+const minuteOfDaySchema = z.number().int().min(0).max(1439);
+
+export const timezoneSchema = z.string().refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown timezone");
+
+export const insertPlaceSubscriptionSchema = createInsertSchema(placeSubscriptions, {
+  mode: z.enum(["notify", "mute"]).optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7).nullable().optional(),
+  startMinute: minuteOfDaySchema.nullable().optional(),
+  endMinute: minuteOfDaySchema.nullable().optional(),
+  timezone: timezoneSchema.optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// A subscription's time window needs both ends; a lone start or end minute would be ignored
+export const hasCompleteTimeWindow = (rule: { startMinute?: number | null; endMinute?: number | null }) =>
+  (rule.startMinute == null) === (rule.endMinute == null);
+
+export const insertPlaceExpectationSchema = createInsertSchema(placeExpectations, {
+  kind: z.enum(["arrive_by", "stay_until"]),
+  minuteOfDay: minuteOfDaySchema,
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7).nullable().optional(),
+  timezone: timezoneSchema.optional(),
+}).omit({
+  id: true,
+  lastSeenInsideOn: true,
+  lastSettledOn: true,
+  createdAt: true,
+});
+
+export const insertDeviceAlertRuleSchema = createInsertSchema(deviceAlertRules, {
+  kind: z.enum(["low_battery", "offline"]),
+  threshold: z.number().int().min(1),
+}).omit({
+  id: true,
+  episodeStartedAt: true,
+  createdAt: true,
+});
+
 export const insertFamilyConnectionSchema = createInsertSchema(familyConnections).omit({
   id: true,
   createdAt: true,
@@ -216,9 +525,49 @@ export type Place = typeof places.$inferSelect;
 export type InsertPlace = z.infer<typeof insertPlaceSchema>;
 export type FamilyConnection = typeof familyConnections.$inferSelect;
 export type InsertFamilyConnection = z.infer<typeof insertFamilyConnectionSchema>;
+export type GeofenceState = typeof geofenceStates.$inferSelect;
+export type PlaceSubscription = typeof placeSubscriptions.$inferSelect;
+export type InsertPlaceSubscription = z.infer<typeof insertPlaceSubscriptionSchema>;
+export type PlaceExpectation = typeof placeExpectations.$inferSelect;
+export type InsertPlaceExpectation = z.infer<typeof insertPlaceExpectationSchema>;
+export type DeviceAlertRule = typeof deviceAlertRules.$inferSelect;
+export type InsertDeviceAlertRule = z.infer<typeof insertDeviceAlertRuleSchema>;
+export type TimelineSegment = typeof timelineSegments.$inferSelect;
+export type InsertTimelineSegment = typeof timelineSegments.$inferInsert;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type SharingPausePeriod = typeof sharingPauses.$inferSelect;
 export type InvitationCode = typeof invitationCodes.$inferSelect;
 export type InsertInvitationCode = z.infer<typeof insertInvitationCodeSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type PasswordResetCode = typeof passwordResetCodes.$inferSelect;
 export type InsertPasswordResetCode = z.infer<typeof insertPasswordResetCodeSchema>;
+
+// Reporting advice the server returns with each saved fix: when the client should report next and how
+// hard it should try
+export type MotionState = 'stationary' | 'walking' | 'driving' | 'unknown';
+export type ReportingAccuracy = 'high' | 'balanced' | 'low';
+
+export interface ReportingRecommendation {
+  intervalSeconds: number;
+  accuracy: ReportingAccuracy;
+  motion: MotionState;
+  reason: string;
+}
+
+// Used when there is nothing better to go on, and by clients until the server first answers
+export const DEFAULT_REPORTING_RECOMMENDATION: ReportingRecommendation = {
+  intervalSeconds: 60,
+  accuracy: 'balanced',
+  motion: 'unknown',
+  reason: 'default',
+};
+
+// The outcome of uploading fixes buffered while offline
+export interface LocationBatchResult {
+  saved: number;
+  duplicates: number;
+  rejected: number; // Malformed, capture time too far in the future or too old, or refused by the sanity filter
+  suspect: number; // Stored, but flagged by the sanity filter
+  latest: Location | null; // The newest fix, when it is newer than anything stored before the batch
+}